@@ -3,13 +3,23 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { ProtectedRoute } from "@/lib/protected-route";
+import Analytics from "@/pages/Analytics";
 import Dashboard from "@/pages/Dashboard";
+import Login from "@/pages/Login";
+import MenuEditor from "@/pages/MenuEditor";
+import ZReport from "@/pages/ZReport";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Dashboard} />
+      <ProtectedRoute path="/" component={Dashboard} />
+      <ProtectedRoute path="/menu" component={MenuEditor} />
+      <ProtectedRoute path="/reports/z/:shiftId" component={ZReport} />
+      <ProtectedRoute path="/analytics" component={Analytics} />
+      <Route path="/login" component={Login} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -18,10 +28,12 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
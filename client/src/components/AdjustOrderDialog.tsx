@@ -0,0 +1,273 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import {
+  refundOrderSchema,
+  voidOrderSchema,
+  type OrderWithItems,
+  type RefundOrder,
+  type VoidOrder,
+} from "@shared/schema";
+import {
+  ADJUSTMENT_KIND_LABELS,
+  ADJUSTMENT_REASON_LABELS,
+  REFUND_REASONS,
+  VOID_REASONS,
+  type AdjustmentKind,
+} from "@shared/adjustments";
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from "@shared/payments";
+import { fromCents, toCents } from "@shared/money";
+import { api } from "@shared/api";
+import { apiQueryKey, callApi } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-auth";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+
+interface AdjustOrderDialogProps {
+  kind: AdjustmentKind;
+  order: OrderWithItems;
+  restaurantId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Both kinds share one form; voids just ignore the amount and method.
+type AdjustmentForm = Omit<RefundOrder, "reasonCode"> & { reasonCode: string };
+
+export default function AdjustOrderDialog({
+  kind,
+  order,
+  restaurantId,
+  open,
+  onOpenChange,
+}: AdjustOrderDialogProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const isRefund = kind === "refund";
+  const reasons = isRefund ? REFUND_REASONS : VOID_REASONS;
+  const paidCents = (order.payments ?? []).reduce(
+    (sum, payment) => sum + toCents(payment.amount),
+    0,
+  );
+  const refundableCents = Math.max(paidCents - toCents(order.refundTotal ?? "0"), 0);
+
+  const form = useForm<AdjustmentForm>({
+    resolver: zodResolver(isRefund ? refundOrderSchema : voidOrderSchema),
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      reasonCode: "",
+      note: "",
+      amount: fromCents(refundableCents),
+      method: order.payments?.[0]?.method ?? "cash",
+      approval: undefined,
+    });
+  }, [open, refundableCents, order.payments, form]);
+
+  const adjustMutation = useMutation({
+    mutationFn: ({ approval, ...values }: AdjustmentForm) => {
+      // Only send approval when a manager actually filled it in.
+      const body = approval?.username ? { ...values, approval } : values;
+      const request = { params: { id: order.id }, restaurantId };
+      // The form checked the reason code against the kind's list.
+      return isRefund
+        ? callApi(api.orders.refund, { ...request, body: body as RefundOrder })
+        : callApi(api.orders.void, { ...request, body: body as VoidOrder });
+    },
+    onSuccess: (updatedOrder) => {
+      queryClient.setQueriesData<OrderWithItems[]>({ queryKey: [api.orders.list.path] }, (oldOrders) =>
+        oldOrders?.map((o) => (o.id === updatedOrder.id ? updatedOrder : o)),
+      );
+      queryClient.invalidateQueries({
+        queryKey: apiQueryKey(api.orders.timeline, { params: { id: updatedOrder.id } }),
+      });
+      toast({ title: isRefund ? "Refund recorded" : "Order voided" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: isRefund ? "Could not refund order" : "Could not void order",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {ADJUSTMENT_KIND_LABELS[kind]} order #{order.orderNumber ?? order.id}
+          </DialogTitle>
+          <DialogDescription>
+            {isRefund
+              ? `Up to ₹${fromCents(refundableCents)} can be refunded.`
+              : "Cancels the order. Nothing has been paid against it."}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((values) => adjustMutation.mutate(values))}
+            className="space-y-4"
+          >
+            <FormField
+              control={form.control}
+              name="reasonCode"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger data-testid={`select-${kind}-reason`}>
+                        <SelectValue placeholder="Pick a reason" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {reasons.map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {ADJUSTMENT_REASON_LABELS[reason]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {isRefund && (
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Amount (₹)</FormLabel>
+                      <FormControl>
+                        <Input inputMode="decimal" data-testid="input-refund-amount" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="method"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Paid back by</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-refund-method">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {PAYMENT_METHODS.map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {PAYMENT_METHOD_LABELS[method]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+            <FormField
+              control={form.control}
+              name="note"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Note</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} value={field.value ?? ""} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {!can("adjustments:approve") && (
+              <div className="space-y-2 rounded-md border p-3">
+                <p className="text-sm text-muted-foreground">
+                  Manager sign-off, if this restaurant requires it
+                </p>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="approval.username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Manager</FormLabel>
+                        <FormControl>
+                          <Input autoComplete="off" {...field} value={field.value ?? ""} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="approval.password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            autoComplete="off"
+                            {...field}
+                            value={field.value ?? ""}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              </div>
+            )}
+            <DialogFooter>
+              <Button
+                type="submit"
+                variant="destructive"
+                disabled={adjustMutation.isPending}
+                data-testid={`button-confirm-${kind}`}
+              >
+                {ADJUSTMENT_KIND_LABELS[kind]}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+import { Loader2, Wifi, WifiOff } from "lucide-react";
+import type { ConnectionStatus } from "@/lib/realtime";
+import { useConnectionStatus } from "@/hooks/use-websocket";
+import { Badge } from "@/components/ui/badge";
+
+const STATUS_DISPLAY: Record<
+  ConnectionStatus,
+  { label: string; variant: "secondary" | "outline" | "destructive" }
+> = {
+  online: { label: "Live", variant: "secondary" },
+  reconnecting: { label: "Reconnecting…", variant: "outline" },
+  offline: { label: "Offline", variant: "destructive" },
+};
+
+// Shows whether new orders will appear on their own or the screen may be
+// behind until the connection comes back.
+export default function ConnectionBadge() {
+  const status = useConnectionStatus();
+  const { label, variant } = STATUS_DISPLAY[status];
+
+  return (
+    <Badge variant={variant} data-testid={`badge-connection-${status}`}>
+      {status === "online" ? (
+        <Wifi className="w-3 h-3 mr-1" />
+      ) : status === "reconnecting" ? (
+        <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+      ) : (
+        <WifiOff className="w-3 h-3 mr-1" />
+      )}
+      {label}
+    </Badge>
+  );
+}
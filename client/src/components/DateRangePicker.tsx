@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+// Business dates ("yyyy-MM-dd"), both ends inclusive.
+export interface DayRange {
+  from: string;
+  to: string;
+}
+
+interface DateRangePickerProps {
+  value: DayRange;
+  // The restaurant's current business date; later days can't be picked.
+  today: string;
+  onChange: (range: DayRange) => void;
+}
+
+export function formatDayRange({ from, to }: DayRange) {
+  return from === to
+    ? format(parseISO(from), "dd MMM yyyy")
+    : `${format(parseISO(from), "dd MMM")} – ${format(parseISO(to), "dd MMM yyyy")}`;
+}
+
+// The calendar works in the browser's dates; only the calendar day picked
+// matters, so convert at the edges.
+function toDateRange({ from, to }: DayRange): DateRange {
+  return { from: parseISO(from), to: parseISO(to) };
+}
+
+function toDayString(date: Date) {
+  return format(date, "yyyy-MM-dd");
+}
+
+// Picks whole days. Nothing changes until Apply; a single picked day is a
+// one-day range.
+export default function DateRangePicker({ value, today, onChange }: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<DateRange | undefined>(toDateRange(value));
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setDraft(toDateRange(value));
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-date-range">
+          <CalendarIcon className="w-4 h-4 mr-1" />
+          {formatDayRange(value)}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="range"
+          selected={draft}
+          onSelect={setDraft}
+          defaultMonth={parseISO(value.to)}
+          disabled={{ after: parseISO(today) }}
+          numberOfMonths={1}
+          initialFocus
+        />
+        <div className="flex justify-end gap-2 border-t p-3">
+          <Button variant="ghost" size="sm" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            size="sm"
+            disabled={!draft?.from}
+            onClick={() => {
+              onChange({
+                from: toDayString(draft!.from!),
+                to: toDayString(draft!.to ?? draft!.from!),
+              });
+              setOpen(false);
+            }}
+            data-testid="button-apply-date-range"
+          >
+            Apply
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,236 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm, type Control } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Plus, Trash2 } from "lucide-react";
+import { z } from "zod";
+import {
+  replaceModifierGroupsSchema,
+  type MenuItem,
+  type ModifierGroupWithOptions,
+} from "@shared/schema";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+
+type ModifierGroupsForm = z.infer<typeof replaceModifierGroupsSchema>;
+
+interface ModifierGroupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item?: MenuItem;
+  groups: ModifierGroupWithOptions[];
+  isSaving?: boolean;
+  onSave: (values: ModifierGroupsForm) => void;
+}
+
+const emptyGroup = () => ({
+  name: "",
+  minSelections: 0,
+  maxSelections: 1,
+  options: [{ name: "", priceDelta: "0" }],
+});
+
+export default function ModifierGroupsDialog({
+  open,
+  onOpenChange,
+  item,
+  groups,
+  isSaving = false,
+  onSave,
+}: ModifierGroupsDialogProps) {
+  const form = useForm<ModifierGroupsForm>({
+    resolver: zodResolver(replaceModifierGroupsSchema),
+    defaultValues: { groups: [] },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "groups" });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset({
+      groups: groups.map((group) => ({
+        name: group.name,
+        minSelections: group.minSelections,
+        maxSelections: group.maxSelections,
+        options: group.options.map((option) => ({
+          name: option.name,
+          priceDelta: option.priceDelta,
+        })),
+      })),
+    });
+  }, [open, groups, form]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Modifiers{item && ` for ${item.name}`}</DialogTitle>
+          <DialogDescription>
+            Sizes, extras and other choices. Price changes are added to the item price.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="space-y-4">
+            {fields.map((field, groupIndex) => (
+              <Card key={field.id} className="p-4 space-y-3">
+                <div className="flex items-end gap-2">
+                  <FormField
+                    control={form.control}
+                    name={`groups.${groupIndex}.name`}
+                    render={({ field }) => (
+                      <FormItem className="flex-1">
+                        <FormLabel>Group</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Size" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`groups.${groupIndex}.minSelections`}
+                    render={({ field }) => (
+                      <FormItem className="w-20">
+                        <FormLabel>Min</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={0}
+                            {...field}
+                            onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`groups.${groupIndex}.maxSelections`}
+                    render={({ field }) => (
+                      <FormItem className="w-20">
+                        <FormLabel>Max</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min={1}
+                            {...field}
+                            onChange={(event) => field.onChange(event.target.valueAsNumber)}
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    size="icon"
+                    variant="ghost"
+                    aria-label="Remove group"
+                    onClick={() => remove(groupIndex)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                <FormField
+                  control={form.control}
+                  name={`groups.${groupIndex}.minSelections`}
+                  render={() => <FormMessage />}
+                />
+                <ModifierOptionsFields control={form.control} groupIndex={groupIndex} />
+              </Card>
+            ))}
+            <Button type="button" variant="outline" onClick={() => append(emptyGroup())}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add group
+            </Button>
+            <DialogFooter>
+              <Button type="submit" disabled={isSaving} data-testid="button-save-modifiers">
+                Save
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ModifierOptionsFields({
+  control,
+  groupIndex,
+}: {
+  control: Control<ModifierGroupsForm>;
+  groupIndex: number;
+}) {
+  const { fields, append, remove } = useFieldArray({
+    control,
+    name: `groups.${groupIndex}.options`,
+  });
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, optionIndex) => (
+        <div key={field.id} className="flex items-start gap-2">
+          <FormField
+            control={control}
+            name={`groups.${groupIndex}.options.${optionIndex}.name`}
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormControl>
+                  <Input placeholder="Option" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={control}
+            name={`groups.${groupIndex}.options.${optionIndex}.priceDelta`}
+            render={({ field }) => (
+              <FormItem className="w-28">
+                <FormControl>
+                  <Input inputMode="decimal" placeholder="+₹" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button
+            type="button"
+            size="icon"
+            variant="ghost"
+            aria-label="Remove option"
+            disabled={fields.length === 1}
+            onClick={() => remove(optionIndex)}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        onClick={() => append({ name: "", priceDelta: "0" })}
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add option
+      </Button>
+    </div>
+  );
+}
@@ -1,107 +1,206 @@
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { CheckCircle2, Clock } from "lucide-react";
+import { useState } from "react";
+import { Ban, CheckCircle2, Clock, History, RotateCcw, XCircle } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
-
-interface OrderItem {
-  name: string;
-  quantity: number;
-  price?: number;
-  description?: string;
-}
+import OrderDetailDrawer from "@/components/OrderDetailDrawer";
+import SettleDialog from "@/components/SettleDialog";
+import AdjustOrderDialog from "@/components/AdjustOrderDialog";
+import type { OrderWithItems } from "@shared/schema";
+import type { AdjustmentKind } from "@shared/adjustments";
+import { fromCents, lineTotalCents, toCents } from "@shared/money";
+import {
+  ORDER_ACTION_LABELS,
+  ORDER_STATUS_LABELS,
+  ORDER_TRANSITIONS,
+  endsUnfulfilled,
+  isTerminalStatus,
+  isVoidOnly,
+  type OrderStatus,
+} from "@shared/orderStatus";
+import { PAYMENT_STATUS_LABELS } from "@shared/payments";
+import { useRestaurant } from "@/hooks/use-restaurant";
 
 interface OrderCardProps {
-  order?: any;
+  order: OrderWithItems;
+  restaurantId: string;
   isNew?: boolean;
-  onComplete?: () => void;
+  onStatusChange?: (status: OrderStatus) => void;
+  canChangeTo?: (status: OrderStatus) => boolean;
+  canSettle?: boolean;
+  canVoid?: boolean;
+  canRefund?: boolean;
 }
 
-export default function OrderCard({ order, onComplete, isNew = false }: OrderCardProps) {
-  if (!order) return null;
+// Rows shown above the total when the order carries them and they are not zero.
+const BREAKDOWN_ROWS = [
+  { key: "discountTotal", label: "Discount", sign: -1 },
+  { key: "taxTotal", label: "GST", sign: 1 },
+  { key: "serviceCharge", label: "Service charge", sign: 1 },
+  { key: "roundingAdjustment", label: "Rounding", sign: 1 },
+] as const;
 
-  const { id, customer_name, table_no, items = [], total_price, status, created_at } = order;
+export default function OrderCard({
+  order,
+  restaurantId,
+  onStatusChange,
+  canChangeTo = () => true,
+  canSettle = false,
+  canVoid = false,
+  canRefund = false,
+  isNew = false,
+}: OrderCardProps) {
+  const [detailsOpen, setDetailsOpen] = useState(false);
+  const [settleOpen, setSettleOpen] = useState(false);
+  const [adjusting, setAdjusting] = useState<AdjustmentKind | null>(null);
+  const { formatTime } = useRestaurant();
 
-  // Safely parse items and include quantity + price + description
-  const safeItems: OrderItem[] = Array.isArray(items)
-    ? items.map((item: any) => {
-        if (typeof item === "string") {
-          const match = item.match(/^(\d+)x\s+(.+)$/);
-          return match
-            ? { quantity: parseInt(match[1]), name: match[2], price: 0 }
-            : { quantity: 1, name: item, price: 0 };
-        } else if (typeof item === "object" && item !== null) {
-          return {
-            name: item.name || "Unknown",
-            quantity: item.quantity || item.qty || 1,
-            price: item.price || 0,
-            description: item.description || "",
-          };
-        }
-        return { name: "Unknown", quantity: 1, price: 0, description: "" };
-      })
-    : [];
+  const {
+    id,
+    orderNumber,
+    customerName,
+    totalPrice,
+    status: currentStatus,
+    paymentStatus,
+    payments,
+    items,
+    createdAt,
+  } = order;
+  const promotions = order.appliedPromotions;
+  const breakdown = BREAKDOWN_ROWS.map((row) => ({
+    ...row,
+    cents: row.sign * toCents(order[row.key]),
+  })).filter((row) => row.cents !== 0);
 
-  const isPending = status === "pending";
+  const isActive = !isTerminalStatus(currentStatus);
+  const isClosedUnfulfilled = endsUnfulfilled(currentStatus);
+  const isPaid = paymentStatus === "paid";
+  const paidCents = payments.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+  const refundCents = toCents(order.refundTotal);
+  // Voids are for orders nobody has paid for; after that it's a refund.
+  const showVoid = canVoid && isActive && payments.length === 0;
+  const showRefund = canRefund && paidCents > refundCents;
+  // Completing waits until the bill is settled, cancelling is the void button
+  // and nothing paid for can be rejected; the server enforces all of this too.
+  const nextStatuses = ORDER_TRANSITIONS[currentStatus]
+    .filter(canChangeTo)
+    .filter((next) => !isVoidOnly(next))
+    .filter((next) => !endsUnfulfilled(next) || payments.length === 0)
+    .filter((next) => next !== "completed" || isPaid);
 
   return (
     <Card
       className={`p-6 space-y-4 transition-all duration-300 ${
         isNew ? "ring-2 ring-primary animate-pulse" : ""
-      } ${isPending ? "hover:shadow-md" : "opacity-75"}`}
+      } ${isActive ? "hover:shadow-md" : "opacity-75"}`}
     >
       {/* Header */}
       <div className="flex items-start justify-between gap-4">
-        <Badge variant={isPending ? "default" : "secondary"}>
-          {isPending ? (
-            <>
-              <Clock className="w-3 h-3 mr-1" />
-              <span className="font-semibold">
-                Order #{id}
-                {table_no && <span className="ml-1">- Table {table_no}</span>}
-              </span>
-            </>
+        <Badge
+          variant={isActive ? "default" : isClosedUnfulfilled ? "destructive" : "secondary"}
+        >
+          {isActive ? (
+            <Clock className="w-3 h-3 mr-1" />
+          ) : isClosedUnfulfilled ? (
+            <XCircle className="w-3 h-3 mr-1" />
           ) : (
-            <>
-              <CheckCircle2 className="w-3 h-3 mr-1" />
-              <span className="font-semibold">
-                Order #{id}
-                {table_no && <span className="ml-1">- Table {table_no}</span>}
-              </span>
-            </>
+            <CheckCircle2 className="w-3 h-3 mr-1" />
           )}
+          <span className="font-semibold">Order #{orderNumber}</span>
         </Badge>
-        <span className="text-xs text-muted-foreground">
-          {created_at
-            ? formatDistanceToNow(new Date(created_at), { addSuffix: true })
-            : ""}
-        </span>
+        <div className="flex items-center gap-1">
+          <span
+            className="text-xs text-muted-foreground"
+            title={formatDistanceToNow(new Date(createdAt), { addSuffix: true })}
+            data-testid={`text-placed-at-${id}`}
+          >
+            {/* On the restaurant's clock, whatever the device is set to */}
+            {formatTime(createdAt, { hour: "2-digit", minute: "2-digit", hourCycle: "h23" })}
+          </span>
+          {showVoid && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => setAdjusting("void")}
+              aria-label="Void order"
+              data-testid={`button-void-${id}`}
+            >
+              <Ban className="w-4 h-4" />
+            </Button>
+          )}
+          {showRefund && (
+            <Button
+              size="icon"
+              variant="ghost"
+              className="h-7 w-7"
+              onClick={() => setAdjusting("refund")}
+              aria-label="Refund order"
+              data-testid={`button-refund-${id}`}
+            >
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          )}
+          <Button
+            size="icon"
+            variant="ghost"
+            className="h-7 w-7"
+            onClick={() => setDetailsOpen(true)}
+            aria-label="Order timeline"
+            data-testid={`button-timeline-${id}`}
+          >
+            <History className="w-4 h-4" />
+          </Button>
+        </div>
       </div>
 
       {/* Customer name */}
-      <div>
-        <h3 className="font-medium text-base">{customer_name || "Guest"}</h3>
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-medium text-base">{customerName || "Guest"}</h3>
+        <div className="flex items-center gap-2">
+          {!isClosedUnfulfilled && (
+            <Badge
+              variant={paymentStatus === "paid" ? "secondary" : "outline"}
+              data-testid={`payment-status-${id}`}
+            >
+              {PAYMENT_STATUS_LABELS[paymentStatus]}
+            </Badge>
+          )}
+          <span className="text-xs font-medium text-muted-foreground" data-testid={`status-${id}`}>
+            {ORDER_STATUS_LABELS[currentStatus]}
+          </span>
+        </div>
       </div>
 
-      {/* Items with quantity, price and description */}
+      {/* Line items */}
       <div className="space-y-2">
-        {safeItems.length > 0 ? (
-          safeItems.map((item, index) => (
-            <div key={index} className="border-b pb-1">
+        {items.length > 0 ? (
+          items.map((item) => (
+            <div key={item.id} className="border-b pb-1">
               <div className="flex justify-between text-sm">
                 <span className="text-muted-foreground">
                   {item.name} × {item.quantity}
                 </span>
-                {item.price ? (
-                  <span className="font-medium">
-                    ₹{(item.price * item.quantity).toFixed(2)}
-                  </span>
-                ) : null}
+                <span className="font-medium">₹{fromCents(lineTotalCents(item))}</span>
               </div>
-              {item.description && (
-                <p className="text-xs text-muted-foreground italic ml-2">
-                  {item.description}
-                </p>
+              {item.modifiers.length > 0 && (
+                <ul className="text-xs text-muted-foreground ml-2">
+                  {item.modifiers.map((modifier, index) => (
+                    <li key={index}>
+                      {modifier.groupName}: {modifier.optionName}
+                      {toCents(modifier.priceDelta) !== 0 && (
+                        <span className="ml-1">
+                          ({toCents(modifier.priceDelta) > 0 ? "+" : "−"}₹
+                          {fromCents(Math.abs(toCents(modifier.priceDelta)))})
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {item.notes && (
+                <p className="text-xs text-muted-foreground italic ml-2">{item.notes}</p>
               )}
             </div>
           ))
@@ -110,20 +209,98 @@ export default function OrderCard({ order, onComplete, isNew = false }: OrderCar
         )}
       </div>
 
+      {/* Subtotal, discount, tax, service charge and rounding */}
+      {breakdown.length > 0 && (
+        <div className="space-y-1 text-sm text-muted-foreground">
+          <div className="flex justify-between">
+            <span>Subtotal</span>
+            <span>₹{order.subtotal}</span>
+          </div>
+          {breakdown.map((row) => (
+            <div key={row.key} className="flex justify-between" data-testid={`${row.key}-${id}`}>
+              <span>
+                {row.key === "discountTotal" && promotions.length > 0
+                  ? promotions
+                      .map((promotion) =>
+                        promotion.code ? `${promotion.name} (${promotion.code})` : promotion.name,
+                      )
+                      .join(", ")
+                  : row.label}
+              </span>
+              <span>
+                {row.cents < 0 ? "−" : ""}₹{fromCents(Math.abs(row.cents))}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Total */}
-      {total_price && (
-        <div className="flex justify-between font-semibold pt-2 border-t">
-          <span>Total:</span>
-          <span>₹{total_price}</span>
+      <div className="flex justify-between font-semibold pt-2 border-t">
+        <span>Total:</span>
+        <span>₹{totalPrice}</span>
+      </div>
+      {refundCents > 0 && (
+        <div className="flex justify-between text-sm text-destructive" data-testid={`refunded-${id}`}>
+          <span>Refunded</span>
+          <span>−₹{fromCents(refundCents)}</span>
+        </div>
+      )}
+
+      {/* Next-action buttons */}
+      {((onStatusChange && nextStatuses.length > 0) || (canSettle && isActive && !isPaid)) && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {canSettle && isActive && !isPaid && (
+            <Button
+              className="flex-1"
+              variant="secondary"
+              onClick={() => setSettleOpen(true)}
+              data-testid={`button-settle-${id}`}
+            >
+              Settle
+            </Button>
+          )}
+          {onStatusChange && nextStatuses.map((next) => (
+            <Button
+              key={next}
+              className="flex-1"
+              variant={endsUnfulfilled(next) ? "outline" : "default"}
+              onClick={() => onStatusChange(next)}
+              data-testid={`button-${next}-${id}`}
+            >
+              {ORDER_ACTION_LABELS[next]}
+            </Button>
+          ))}
         </div>
       )}
 
-      {/* Complete button */}
-      {isPending && onComplete && (
-        <Button className="w-full mt-2" onClick={onComplete}>
-          Mark as Completed
-        </Button>
+      {canSettle && (
+        <SettleDialog
+          order={order}
+          restaurantId={restaurantId}
+          open={settleOpen}
+          onOpenChange={setSettleOpen}
+        />
       )}
+
+      {adjusting && (
+        <AdjustOrderDialog
+          kind={adjusting}
+          order={order}
+          restaurantId={restaurantId}
+          open
+          onOpenChange={(open) => !open && setAdjusting(null)}
+        />
+      )}
+
+      <OrderDetailDrawer
+        orderId={id}
+        restaurantId={restaurantId}
+        title={`Order #${orderNumber}`}
+        adjustments={order.adjustments}
+        open={detailsOpen}
+        onOpenChange={setDetailsOpen}
+      />
     </Card>
   );
 }
@@ -0,0 +1,135 @@
+import { formatDistanceStrict } from "date-fns";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import type { OrderAdjustment } from "@shared/schema";
+import { api } from "@shared/api";
+import { ORDER_STATUS_LABELS } from "@shared/orderStatus";
+import {
+  ADJUSTMENT_KIND_LABELS,
+  ADJUSTMENT_REASON_LABELS,
+  type AdjustmentReason,
+} from "@shared/adjustments";
+import { useRestaurant } from "@/hooks/use-restaurant";
+import { useApiQuery } from "@/lib/api";
+
+interface OrderDetailDrawerProps {
+  orderId: string;
+  restaurantId: string;
+  title: string;
+  adjustments?: OrderAdjustment[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function OrderDetailDrawer({
+  orderId,
+  restaurantId,
+  title,
+  adjustments = [],
+  open,
+  onOpenChange,
+}: OrderDetailDrawerProps) {
+  const { formatTime } = useRestaurant();
+  const { data: timeline = [], isLoading, isError } = useApiQuery(
+    api.orders.timeline,
+    { params: { id: orderId }, restaurantId },
+    { enabled: open },
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{title}</SheetTitle>
+          <SheetDescription>Status history for this order</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6">
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-12 w-full" />
+              <Skeleton className="h-12 w-full" />
+            </div>
+          ) : isError ? (
+            <p className="text-sm text-destructive">Could not load the timeline.</p>
+          ) : timeline.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No status changes recorded.</p>
+          ) : (
+            <ol className="relative border-l pl-6 space-y-6" data-testid={`timeline-${orderId}`}>
+              {timeline.map((event, index) => {
+                const changedAt = new Date(event.changedAt);
+                const previous = index > 0 ? new Date(timeline[index - 1].changedAt) : null;
+
+                return (
+                  <li key={event.id} className="relative">
+                    <span className="absolute -left-[1.85rem] top-1 h-3 w-3 rounded-full bg-primary" />
+                    <div className="flex items-baseline justify-between gap-2">
+                      <span className="font-medium">
+                        {event.fromStatus
+                          ? ORDER_STATUS_LABELS[event.toStatus]
+                          : `Received (${ORDER_STATUS_LABELS[event.toStatus]})`}
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatTime(changedAt, {
+                          hour: "2-digit",
+                          minute: "2-digit",
+                          second: "2-digit",
+                          hourCycle: "h23",
+                        })}
+                      </span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {previous
+                        ? `${formatDistanceStrict(changedAt, previous)} after ${ORDER_STATUS_LABELS[
+                            event.fromStatus ?? event.toStatus
+                          ].toLowerCase()}`
+                        : formatTime(changedAt, { dateStyle: "medium" })}
+                      {event.changedBy && ` · by ${event.changedBy}`}
+                    </p>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+
+        {adjustments.length > 0 && (
+          <div className="mt-8 space-y-3" data-testid={`adjustments-${orderId}`}>
+            <h3 className="text-sm font-semibold">Voids & refunds</h3>
+            {adjustments.map((adjustment) => (
+              <div key={adjustment.id} className="text-sm border-b pb-2">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">
+                    {ADJUSTMENT_KIND_LABELS[adjustment.kind]} · ₹{adjustment.amount}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {formatTime(adjustment.createdAt, {
+                      dateStyle: "medium",
+                      timeStyle: "short",
+                      hourCycle: "h23",
+                    })}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {ADJUSTMENT_REASON_LABELS[adjustment.reasonCode as AdjustmentReason] ??
+                    adjustment.reasonCode}
+                  {adjustment.note && ` — ${adjustment.note}`}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  By {adjustment.requestedBy}
+                  {adjustment.approvedBy && ` · approved by ${adjustment.approvedBy}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,25 +1,54 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
 import { Card } from "@/components/ui/card";
-import { TrendingUp, ShoppingBag } from "lucide-react"; // Removed DollarSign icon
+import { TrendingUp, ShoppingBag, Tag, RotateCcw } from "lucide-react"; // Removed DollarSign icon
+import { percentChange, type RevenueComparison } from "@shared/analytics";
+import DateRangePicker, { type DayRange } from "@/components/DateRangePicker";
 
 interface RevenueCardProps {
-  todayRevenue: string;
-  completedOrders: number;
-  averageOrderValue: string;
+  range: DayRange;
+  // The restaurant's current business date.
+  today: string;
+  onRangeChange: (range: DayRange) => void;
+  // Server-side figures for the range; revenue is net of discounts and refunds.
+  comparison?: RevenueComparison;
 }
 
-export default function RevenueCard({
-  todayRevenue,
-  completedOrders,
-  averageOrderValue,
-}: RevenueCardProps) {
+function comparisonLabels({ from, to }: DayRange, today: string) {
+  const days = differenceInCalendarDays(parseISO(to), parseISO(from)) + 1;
+  if (days === 1) {
+    return {
+      previousPeriod: from === today ? "vs yesterday" : "vs day before",
+      previousWeek: "vs same weekday last week",
+    };
+  }
+  return { previousPeriod: `vs previous ${days} days`, previousWeek: "vs a week earlier" };
+}
+
+function Delta({ label, current, previous }: { label: string; current: string; previous: string }) {
+  const change = percentChange(current, previous);
+  const tone =
+    change === null ? "text-muted-foreground" : change < 0 ? "text-destructive" : "text-green-600";
+  return (
+    <span className={`text-xs ${tone}`}>
+      {change === null ? "—" : `${change >= 0 ? "+" : "−"}${Math.abs(change).toFixed(1)}%`} {label}
+    </span>
+  );
+}
+
+export default function RevenueCard({ range, today, onRangeChange, comparison }: RevenueCardProps) {
+  const current = comparison?.current;
+  const labels = comparisonLabels(range, today);
+  const showingToday = range.from === today && range.to === today;
+
   return (
     <Card className="p-6 space-y-6 sticky top-4">
-      <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2">
         <h2 className="text-xl font-semibold flex items-center gap-2">
           {/* ₹ symbol instead of DollarSign icon */}
           <span className="text-primary text-2xl">₹</span>
-          Today's Revenue
+          {showingToday ? "Today's Revenue" : "Revenue"}
         </h2>
+        <DateRangePicker value={range} today={today} onChange={onRangeChange} />
       </div>
 
       <div className="space-y-6">
@@ -27,20 +56,54 @@ export default function RevenueCard({
           <div className="flex items-baseline gap-2">
             {/* Changed $ to ₹ */}
             <span className="text-4xl font-bold" data-testid="text-revenue-total">
-              ₹{todayRevenue}
+              ₹{current?.revenue ?? "0.00"}
             </span>
           </div>
-          <p className="text-sm text-muted-foreground mt-1">Total earnings today</p>
+          <p className="text-sm text-muted-foreground mt-1">After discounts and refunds</p>
+          {comparison && (
+            <div className="flex flex-wrap gap-x-3 mt-1" data-testid="text-revenue-deltas">
+              <Delta
+                label={labels.previousPeriod}
+                current={comparison.current.revenue}
+                previous={comparison.previousPeriod.revenue}
+              />
+              <Delta
+                label={labels.previousWeek}
+                current={comparison.current.revenue}
+                previous={comparison.previousWeek.revenue}
+              />
+            </div>
+          )}
         </div>
 
         <div className="space-y-4 pt-4 border-t">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Tag className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">Discounts Given</span>
+            </div>
+            <span className="font-semibold" data-testid="text-discount-total">
+              −₹{current?.discounts ?? "0.00"}
+            </span>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <RotateCcw className="w-4 h-4 text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">Refunds</span>
+            </div>
+            <span className="font-semibold" data-testid="text-refund-total">
+              −₹{current?.refunds ?? "0.00"}
+            </span>
+          </div>
+
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-2">
               <ShoppingBag className="w-4 h-4 text-muted-foreground" />
               <span className="text-sm text-muted-foreground">Orders Completed</span>
             </div>
             <span className="font-semibold" data-testid="text-orders-completed">
-              {completedOrders}
+              {current?.orders ?? 0}
             </span>
           </div>
 
@@ -51,7 +114,7 @@ export default function RevenueCard({
             </div>
             {/* Changed $ to ₹ */}
             <span className="font-semibold" data-testid="text-avg-order">
-              ₹{averageOrderValue}
+              ₹{current?.averageTicket ?? "0.00"}
             </span>
           </div>
         </div>
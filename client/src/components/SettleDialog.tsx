@@ -0,0 +1,211 @@
+import { useEffect } from "react";
+import { useFieldArray, useForm, useWatch } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Trash2 } from "lucide-react";
+import { settleOrderSchema, type OrderWithItems, type SettleOrder } from "@shared/schema";
+import { fromCents, toCents } from "@shared/money";
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS } from "@shared/payments";
+import { api } from "@shared/api";
+import { callApi } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface SettleDialogProps {
+  order: OrderWithItems;
+  restaurantId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function SettleDialog({
+  order,
+  restaurantId,
+  open,
+  onOpenChange,
+}: SettleDialogProps) {
+  const { toast } = useToast();
+  const paidCents = (order.payments ?? []).reduce(
+    (sum, payment) => sum + toCents(payment.amount),
+    0,
+  );
+  const dueCents = Math.max(toCents(order.totalPrice) - paidCents, 0);
+
+  const form = useForm<SettleOrder>({
+    resolver: zodResolver(settleOrderSchema),
+    defaultValues: { payments: [] },
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "payments" });
+  const tendered = useWatch({ control: form.control, name: "payments" }) ?? [];
+  const remainingCents =
+    dueCents - tendered.reduce((sum, payment) => sum + (toCents(payment.amount || 0) || 0), 0);
+
+  // Start each settlement with a single cash tender for the full amount due.
+  useEffect(() => {
+    if (!open) return;
+    form.reset({ payments: [{ method: "cash", amount: fromCents(dueCents), reference: "" }] });
+  }, [open, dueCents, form]);
+
+  const settleMutation = useMutation({
+    mutationFn: (values: SettleOrder) =>
+      callApi(api.orders.settle, { params: { id: order.id }, body: values, restaurantId }),
+    onSuccess: (updatedOrder) => {
+      queryClient.setQueriesData<OrderWithItems[]>({ queryKey: [api.orders.list.path] }, (oldOrders) =>
+        oldOrders?.map((o) => (o.id === updatedOrder.id ? updatedOrder : o)),
+      );
+      toast({ title: "Payment recorded" });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not record payment",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Settle order #{order.orderNumber ?? order.id}</DialogTitle>
+          <DialogDescription>
+            Total ₹{order.totalPrice}
+            {paidCents > 0 && ` · already paid ₹${fromCents(paidCents)}`} · due ₹
+            {fromCents(dueCents)}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form
+            onSubmit={form.handleSubmit((values) => settleMutation.mutate(values))}
+            className="space-y-4"
+          >
+            {fields.map((field, index) => (
+              <div key={field.id} className="flex items-end gap-2">
+                <FormField
+                  control={form.control}
+                  name={`payments.${index}.method`}
+                  render={({ field }) => (
+                    <FormItem className="w-28">
+                      <FormLabel>Method</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger data-testid={`select-payment-method-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {PAYMENT_METHODS.map((method) => (
+                            <SelectItem key={method} value={method}>
+                              {PAYMENT_METHOD_LABELS[method]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`payments.${index}.amount`}
+                  render={({ field }) => (
+                    <FormItem className="w-28">
+                      <FormLabel>Amount (₹)</FormLabel>
+                      <FormControl>
+                        <Input
+                          inputMode="decimal"
+                          data-testid={`input-payment-amount-${index}`}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name={`payments.${index}.reference`}
+                  render={({ field }) => (
+                    <FormItem className="flex-1">
+                      <FormLabel>Reference</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Txn / slip no." {...field} value={field.value ?? ""} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  aria-label="Remove payment"
+                  disabled={fields.length === 1}
+                  onClick={() => remove(index)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                append({
+                  method: "card",
+                  amount: fromCents(Math.max(remainingCents, 0)),
+                  reference: "",
+                })
+              }
+              data-testid="button-split-payment"
+            >
+              <Plus className="w-4 h-4 mr-1" /> Split
+            </Button>
+            <p className="text-sm text-muted-foreground" data-testid="text-payment-remaining">
+              {remainingCents > 0
+                ? `₹${fromCents(remainingCents)} still due after these payments`
+                : remainingCents < 0
+                  ? `₹${fromCents(-remainingCents)} more than is due`
+                  : "Covers the full amount due"}
+            </p>
+            <DialogFooter>
+              <Button
+                type="submit"
+                disabled={settleMutation.isPending || remainingCents < 0}
+                data-testid="button-record-payment"
+              >
+                Record payment
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,279 @@
+import { useCallback, useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { CalendarCheck, Clock, FileText } from "lucide-react";
+import {
+  closeShiftSchema,
+  openShiftSchema,
+  type CloseShift,
+  type OpenShift,
+} from "@shared/schema";
+import { api } from "@shared/api";
+import { callApi, useApiQuery } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useRestaurant } from "@/hooks/use-restaurant";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { useToast } from "@/hooks/use-toast";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+interface ShiftBarProps {
+  canManage: boolean;
+  canCloseDay: boolean;
+  canViewReports: boolean;
+}
+
+// The shift the dashboard is showing. Shifts live on the server, so every
+// screen in the restaurant agrees on what "now" covers.
+export default function ShiftBar({ canManage, canCloseDay, canViewReports }: ShiftBarProps) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [dialog, setDialog] = useState<"open" | "close" | null>(null);
+  const { formatTime } = useRestaurant();
+  const { data: current, isLoading } = useApiQuery(api.shifts.current, {});
+
+  const refresh = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: [api.shifts.current.path] });
+    queryClient.invalidateQueries({ queryKey: [api.orders.list.path] });
+  }, []);
+
+  const announceDayClosed = useCallback(
+    (businessDay: { businessDate: string }) =>
+      toast({ title: `Business day ${businessDay.businessDate} closed` }),
+    [toast],
+  );
+
+  useWebSocket({
+    SHIFT_OPENED: refresh,
+    SHIFT_CLOSED: refresh,
+    BUSINESS_DAY_CLOSED: (event) => announceDayClosed(event.businessDay),
+  });
+
+  const onError = (error: Error) =>
+    toast({ title: "Could not update the shift", description: error.message, variant: "destructive" });
+
+  const openShiftMutation = useMutation({
+    mutationFn: (values: OpenShift) => callApi(api.shifts.open, { body: values }),
+    onSuccess: () => {
+      setDialog(null);
+      refresh();
+    },
+    onError,
+  });
+
+  const closeShiftMutation = useMutation({
+    mutationFn: (values: CloseShift) =>
+      callApi(api.shifts.close, { params: { id: current!.shift.id }, body: values }),
+    onSuccess: () => {
+      const closedShiftId = current!.shift.id;
+      setDialog(null);
+      refresh();
+      if (canViewReports) navigate(`/reports/z/${closedShiftId}`);
+    },
+    onError,
+  });
+
+  const closeDayMutation = useMutation({
+    mutationFn: () => callApi(api.shifts.closeBusinessDay),
+    onSuccess: refresh,
+    onError,
+  });
+
+  if (isLoading) return null;
+
+  return (
+    <Card className="p-4 flex flex-wrap items-center justify-between gap-3" data-testid="shift-bar">
+      <div className="flex items-center gap-2 text-sm">
+        <Clock className="w-4 h-4 text-muted-foreground" />
+        {current ? (
+          <span>
+            Shift opened{" "}
+            {formatTime(current.shift.openedAt, { hour: "2-digit", minute: "2-digit", hourCycle: "h23" })}{" "}
+            by{" "}
+            {current.shift.openedBy} · float ₹{current.shift.openingFloat} · business day{" "}
+            {current.businessDay.businessDate}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">
+            No shift open. New orders wait for the next shift.
+          </span>
+        )}
+      </div>
+      <div className="flex gap-2">
+        {canViewReports && current && (
+          <Link href={`/reports/z/${current.shift.id}`}>
+            <Button variant="ghost" data-testid="button-shift-report">
+              <FileText className="w-4 h-4 mr-1" /> Report
+            </Button>
+          </Link>
+        )}
+        {canManage && !current && (
+          <Button onClick={() => setDialog("open")} data-testid="button-open-shift">
+            Open shift
+          </Button>
+        )}
+        {canManage && current && (
+          <Button variant="outline" onClick={() => setDialog("close")} data-testid="button-close-shift">
+            Close shift
+          </Button>
+        )}
+        {canCloseDay && !current && (
+          <Button
+            variant="destructive"
+            disabled={closeDayMutation.isPending}
+            onClick={() => {
+              if (confirm("Close the business day? Its orders can no longer be changed.")) {
+                closeDayMutation.mutate();
+              }
+            }}
+            data-testid="button-close-day"
+          >
+            <CalendarCheck className="w-4 h-4 mr-1" /> Close day
+          </Button>
+        )}
+      </div>
+
+      <OpenShiftDialog
+        open={dialog === "open"}
+        onOpenChange={(open) => setDialog(open ? "open" : null)}
+        isSaving={openShiftMutation.isPending}
+        onSave={(values) => openShiftMutation.mutate(values)}
+      />
+      <CloseShiftDialog
+        open={dialog === "close"}
+        onOpenChange={(open) => setDialog(open ? "close" : null)}
+        isSaving={closeShiftMutation.isPending}
+        onSave={(values) => closeShiftMutation.mutate(values)}
+      />
+    </Card>
+  );
+}
+
+interface ShiftDialogProps<T> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  isSaving: boolean;
+  onSave: (values: T) => void;
+}
+
+function OpenShiftDialog({ open, onOpenChange, isSaving, onSave }: ShiftDialogProps<OpenShift>) {
+  const form = useForm<OpenShift>({
+    resolver: zodResolver(openShiftSchema),
+    defaultValues: { openingFloat: "0" },
+  });
+
+  useEffect(() => {
+    if (open) form.reset({ openingFloat: "0" });
+  }, [open, form]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Open shift</DialogTitle>
+          <DialogDescription>Count the cash in the drawer before you start.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="openingFloat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Opening float (₹)</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" data-testid="input-opening-float" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={isSaving} data-testid="button-confirm-open-shift">
+                Open shift
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CloseShiftDialog({ open, onOpenChange, isSaving, onSave }: ShiftDialogProps<CloseShift>) {
+  const form = useForm<CloseShift>({
+    resolver: zodResolver(closeShiftSchema),
+    defaultValues: { closingCash: "", notes: "" },
+  });
+
+  useEffect(() => {
+    if (open) form.reset({ closingCash: "", notes: "" });
+  }, [open, form]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Close shift</DialogTitle>
+          <DialogDescription>
+            Every order in the shift must be finished first. Closed shifts can't be changed.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSave)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="closingCash"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Cash in drawer (₹)</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" data-testid="input-closing-cash" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea {...field} value={field.value ?? ""} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={isSaving} data-testid="button-confirm-close-shift">
+                Close shift
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,100 @@
+import { useCallback } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Ban } from "lucide-react";
+import type { Menu, MenuItem } from "@shared/schema";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { api } from "@shared/api";
+import { apiQueryKey, callApi, useApiQuery } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { useToast } from "@/hooks/use-toast";
+
+interface SoldOutPanelProps {
+  canToggle: boolean;
+}
+
+// Lists menu items that are currently "86'd". Availability changes arrive
+// over the WebSocket, so every screen sees a sold-out item at the same time.
+export default function SoldOutPanel({ canToggle }: SoldOutPanelProps) {
+  const { toast } = useToast();
+  const { data: menu } = useApiQuery(api.menu.get, {});
+  const soldOut = (menu?.items ?? []).filter((item) => !item.isAvailable);
+  const available = (menu?.items ?? []).filter((item) => item.isAvailable);
+
+  const applyAvailability = useCallback((item: MenuItem) => {
+    queryClient.setQueryData<Menu>(apiQueryKey(api.menu.get, {}), (old) =>
+      old && { ...old, items: old.items.map((i) => (i.id === item.id ? item : i)) }
+    );
+  }, []);
+
+  useWebSocket({
+    MENU_ITEM_AVAILABILITY: (event) => applyAvailability(event.item),
+    MENU_CHANGED: () => queryClient.invalidateQueries({ queryKey: [api.menu.get.path] }),
+  });
+
+  const availabilityMutation = useMutation({
+    mutationFn: ({ id, isAvailable }: { id: string; isAvailable: boolean }) =>
+      callApi(api.menu.setAvailability, { params: { id }, body: { isAvailable } }),
+    onSuccess: applyAvailability,
+    onError: (error: Error) => {
+      toast({ title: "Could not update item", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (soldOut.length === 0 && !canToggle) return null;
+
+  return (
+    <Card className="p-4 space-y-3 border-destructive/50" data-testid="panel-sold-out">
+      <h2 className="font-semibold flex items-center gap-2">
+        <Ban className="w-4 h-4 text-destructive" />
+        Sold out
+      </h2>
+      {soldOut.length === 0 && (
+        <p className="text-sm text-muted-foreground">Everything on the menu is available.</p>
+      )}
+      <ul className="space-y-2">
+        {soldOut.map((item) => (
+          <li key={item.id} className="flex items-center justify-between gap-2 text-sm">
+            <span>{item.name}</span>
+            {canToggle && (
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={availabilityMutation.isPending}
+                onClick={() => availabilityMutation.mutate({ id: item.id, isAvailable: true })}
+                data-testid={`button-restock-${item.id}`}
+              >
+                Back in stock
+              </Button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {canToggle && available.length > 0 && (
+        <Select
+          value=""
+          onValueChange={(id) => availabilityMutation.mutate({ id, isAvailable: false })}
+        >
+          <SelectTrigger data-testid="select-mark-sold-out">
+            <SelectValue placeholder="Mark an item sold out…" />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((item) => (
+              <SelectItem key={item.id} value={item.id}>
+                {item.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </Card>
+  );
+}
@@ -1,35 +1,81 @@
 import OrderCard from '../OrderCard';
+import type { OrderItem, OrderWithItems } from '@shared/schema';
+import type { OrderStatus } from '@shared/orderStatus';
+
+const item = (id: string, name: string, quantity: number, unitPrice: string): OrderItem => ({
+  id,
+  orderId: "order",
+  position: 0,
+  menuItemId: null,
+  name,
+  quantity,
+  unitPrice,
+  taxRate: "0",
+  discountAmount: "0",
+  taxAmount: "0",
+  modifiers: [],
+  notes: null,
+});
+
+const order = (
+  orderNumber: number,
+  customerName: string,
+  status: OrderStatus,
+  minutesAgo: number,
+  items: OrderItem[],
+  totalPrice: string,
+): OrderWithItems => ({
+  id: `order-${orderNumber}`,
+  restaurantId: "res-1",
+  orderNumber,
+  customerName,
+  subtotal: totalPrice,
+  discountTotal: "0",
+  taxTotal: "0",
+  serviceCharge: "0",
+  roundingAdjustment: "0",
+  totalPrice,
+  appliedPromotions: [],
+  status,
+  paymentStatus: status === "completed" ? "paid" : "unpaid",
+  refundTotal: "0",
+  shiftId: null,
+  createdAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+  items,
+  payments: [],
+  adjustments: [],
+});
 
 export default function OrderCardExample() {
   return (
     <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-6">
       <OrderCard
-        orderNumber={1234}
-        customerName="Sarah Johnson"
-        items={["2x Margherita Pizza", "1x Caesar Salad", "2x Coca Cola"]}
-        totalPrice="45.50"
-        status="pending"
-        createdAt={new Date(Date.now() - 5 * 60 * 1000)}
-        onComplete={() => console.log('Order completed')}
+        restaurantId="res-1"
+        order={order(1234, "Sarah Johnson", "pending", 5, [
+          item("item-1", "Margherita Pizza", 2, "12.50"),
+          item("item-2", "Caesar Salad", 1, "9.50"),
+          item("item-3", "Coca Cola", 2, "5.50"),
+        ], "45.50")}
+        onStatusChange={(status) => console.log('Order moved to', status)}
       />
-      
+
       <OrderCard
-        orderNumber={1233}
-        customerName="Michael Chen"
-        items={["1x Beef Burger", "1x French Fries", "1x Milkshake"]}
-        totalPrice="28.75"
-        status="completed"
-        createdAt={new Date(Date.now() - 15 * 60 * 1000)}
+        restaurantId="res-1"
+        order={order(1233, "Michael Chen", "completed", 15, [
+          item("item-1", "Beef Burger", 1, "14.75"),
+          item("item-2", "French Fries", 1, "6.00"),
+          item("item-3", "Milkshake", 1, "8.00"),
+        ], "28.75")}
       />
-      
+
       <OrderCard
-        orderNumber={1235}
-        customerName="Emma Williams"
-        items={["3x Chicken Wings", "1x Onion Rings", "2x Sprite"]}
-        totalPrice="32.00"
-        status="pending"
-        createdAt={new Date(Date.now() - 2 * 60 * 1000)}
-        onComplete={() => console.log('Order completed')}
+        restaurantId="res-1"
+        order={order(1235, "Emma Williams", "preparing", 2, [
+          item("item-1", "Chicken Wings", 3, "6.00"),
+          item("item-2", "Onion Rings", 1, "6.00"),
+          item("item-3", "Sprite", 2, "4.00"),
+        ], "32.00")}
+        onStatusChange={(status) => console.log('Order moved to', status)}
         isNew={true}
       />
     </div>
@@ -1,12 +1,31 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
 import RevenueCard from '../RevenueCard';
+import type { DayRange } from '../DateRangePicker';
+
+const summary = (revenue: string, orders: number) => ({
+  revenue,
+  discounts: "86.00",
+  refunds: "120.00",
+  orders,
+  averageTicket: (Number(revenue) / orders).toFixed(2),
+});
 
 export default function RevenueCardExample() {
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const [range, setRange] = useState<DayRange>({ from: today, to: today });
+
   return (
     <div className="max-w-sm p-6">
       <RevenueCard
-        todayRevenue="1,247.50"
-        completedOrders={28}
-        averageOrderValue="44.55"
+        range={range}
+        today={today}
+        onRangeChange={setRange}
+        comparison={{
+          current: summary("1247.50", 28),
+          previousPeriod: summary("1104.00", 25),
+          previousWeek: summary("1310.25", 30),
+        }}
       />
     </div>
   );
@@ -0,0 +1,98 @@
+import { createContext, ReactNode, useContext } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import type { LoginInput, PublicUser } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { api } from "@shared/api";
+import { ApiError, apiQueryKey, callApi } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type AuthContextType = {
+  user: PublicUser | null;
+  isLoading: boolean;
+  error: Error | null;
+  loginMutation: UseMutationResult<PublicUser, Error, LoginInput>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+};
+
+export const AuthContext = createContext<AuthContextType | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<PublicUser | null, Error>({
+    queryKey: apiQueryKey(api.auth.me),
+    // Not being signed in is an answer here, not an error.
+    queryFn: () =>
+      callApi(api.auth.me).catch((error) => {
+        if (error instanceof ApiError && error.status === 401) return null;
+        throw error;
+      }),
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: LoginInput) => callApi(api.auth.login, { body: credentials }),
+    onSuccess: (user: PublicUser) => {
+      queryClient.setQueryData(apiQueryKey(api.auth.me), user);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Login failed",
+        description:
+          error instanceof ApiError && error.status === 401
+            ? "Invalid username or password"
+            : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => callApi(api.auth.logout),
+    onSuccess: () => {
+      queryClient.setQueryData(apiQueryKey(api.auth.me), null);
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== api.auth.me.path });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Logout failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        error,
+        loginMutation,
+        logoutMutation,
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
+
+// Mirrors the server's permission checks so controls the user can't use are
+// hidden rather than failing with a 403.
+export function usePermissions() {
+  const { user } = useAuth();
+  return {
+    can: (permission: Permission) => !!user && hasPermission(user.role, permission),
+  };
+}
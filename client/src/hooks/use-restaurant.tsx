@@ -0,0 +1,31 @@
+import { api } from "@shared/api";
+import { useApiQuery } from "@/lib/api";
+import {
+  DEFAULT_DAY_CUTOVER,
+  DEFAULT_TIMEZONE,
+  businessDateFor,
+  formatInTimeZone,
+  type BusinessDaySettings,
+} from "@shared/businessDay";
+
+// The signed-in user's restaurant. Until it loads, times and business dates
+// fall back to the defaults new restaurants get.
+export function useRestaurant() {
+  const { data: restaurants, isLoading } = useApiQuery(api.restaurants.list, {});
+  const restaurant = restaurants?.[0];
+  const settings: BusinessDaySettings = {
+    timezone: restaurant?.timezone ?? DEFAULT_TIMEZONE,
+    dayCutover: restaurant?.dayCutover ?? DEFAULT_DAY_CUTOVER,
+  };
+
+  return {
+    restaurant,
+    isLoading,
+    timeZone: settings.timezone,
+    // Today's business date, e.g. still yesterday at 2am with a 6am cutover.
+    today: () => businessDateFor(new Date(), settings),
+    // Shows an instant on the restaurant's clock rather than the browser's.
+    formatTime: (instant: Date | string, options: Intl.DateTimeFormatOptions) =>
+      formatInTimeZone(instant, settings.timezone, options),
+  };
+}
@@ -1,87 +1,36 @@
-import { useEffect, useRef } from 'react';
-
-interface WebSocketMessage {
-  type: string;
-  order?: any;
-}
-
-interface UseWebSocketProps {
-  onNewOrder?: (order: any) => void;
-  onOrderUpdated?: (order: any) => void;
-}
-
-export function useWebSocket({ onNewOrder, onOrderUpdated }: UseWebSocketProps = {}) {
-  const wsRef = useRef<WebSocket | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+import { useEffect, useRef, useSyncExternalStore } from 'react';
+import type { ServerEvent, ServerEventOf, ServerEventType } from '@shared/events';
+import {
+  getConnectionStatus,
+  subscribe,
+  subscribeToConnectionStatus,
+} from '@/lib/realtime';
+
+// A handler per event type, each receiving that type's payload.
+export type ServerEventHandlers = {
+  [T in ServerEventType]?: (event: ServerEventOf<T>) => void;
+};
+
+// Subscribes the component to server events for as long as it is mounted.
+// Handlers may change between renders without resubscribing.
+export function useWebSocket(handlers: ServerEventHandlers) {
+  const latest = useRef(handlers);
+  latest.current = handlers;
+  const types = Object.keys(handlers).sort().join(',');
 
   useEffect(() => {
-    let isUnmounted = false;
-    
-    const connectWithUnmountGuard = () => {
-      if (isUnmounted) return;
-      
-      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-      const wsUrl = `${protocol}//${window.location.host}/ws`;
-
-      try {
-        const ws = new WebSocket(wsUrl);
-
-        ws.onopen = () => {
-          console.log('WebSocket connected');
-        };
-
-        ws.onmessage = (event) => {
-          if (isUnmounted) return;
-          
-          try {
-            const message: WebSocketMessage = JSON.parse(event.data);
-
-            if (message.type === 'NEW_ORDER' && message.order && onNewOrder) {
-              onNewOrder(message.order);
-            } else if (message.type === 'ORDER_UPDATED' && message.order && onOrderUpdated) {
-              onOrderUpdated(message.order);
-            }
-          } catch (error) {
-            console.error('Error parsing WebSocket message:', error);
-          }
-        };
-
-        ws.onerror = (error) => {
-          console.error('WebSocket error:', error);
-        };
-
-        ws.onclose = () => {
-          console.log('WebSocket disconnected');
-          if (!isUnmounted) {
-            reconnectTimeoutRef.current = setTimeout(() => {
-              connectWithUnmountGuard();
-            }, 3000);
-          }
-        };
-
-        wsRef.current = ws;
-      } catch (error) {
-        console.error('Error creating WebSocket:', error);
-        if (!isUnmounted) {
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connectWithUnmountGuard();
-          }, 3000);
-        }
-      }
-    };
-
-    connectWithUnmountGuard();
-
-    return () => {
-      isUnmounted = true;
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
-    };
-  }, [onNewOrder, onOrderUpdated]);
+    if (!types) return;
+    const unsubscribes = types.split(',').map((type) =>
+      subscribe(type as ServerEventType, (event: ServerEvent) => {
+        const current = latest.current as Record<string, ((event: ServerEvent) => void) | undefined>;
+        current[event.type]?.(event);
+      }),
+    );
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [types]);
+}
 
-  return wsRef;
+// Whether live updates are flowing: online, reconnecting or offline.
+export function useConnectionStatus() {
+  return useSyncExternalStore(subscribeToConnectionStatus, getConnectionStatus);
 }
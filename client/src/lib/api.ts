@@ -0,0 +1,124 @@
+import { useQuery, type UseQueryOptions } from "@tanstack/react-query";
+import type { ApiInput, ApiResponse, Endpoint } from "@shared/api";
+
+// Where the server lives. Empty means the origin the app was served from;
+// set VITE_API_BASE_URL at build time to talk to a server elsewhere.
+export const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL ?? "").replace(/\/$/, "");
+
+export function apiUrl(path: string): string {
+  return `${API_BASE_URL}${path}`;
+}
+
+// The server's WebSocket endpoint, next to the API.
+export function websocketUrl(): string {
+  return `${(API_BASE_URL || window.location.origin).replace(/^http/, "ws")}/ws`;
+}
+
+// The same events as Server-Sent Events, for when WebSockets are blocked.
+export function eventStreamUrl(): string {
+  return apiUrl("/api/events");
+}
+
+// A non-2xx answer. The message is the server's `error` field when it sent
+// one, so it can go straight into a toast.
+export class ApiError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public body: unknown,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+// Input is optional for endpoints that need nothing but may take a query.
+type InputArgs<E> = {} extends ApiInput<E> ? [input?: ApiInput<E>] : [input: ApiInput<E>];
+
+interface RequestParts {
+  params?: Record<string, string>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  restaurantId?: string;
+}
+
+function endpointUrl(endpoint: Endpoint, { params = {}, query }: RequestParts): string {
+  const path = endpoint.path.replace(/:(\w+)/g, (_, name: string) =>
+    encodeURIComponent(params[name]),
+  );
+  const search = new URLSearchParams();
+  Object.keys(query ?? {}).forEach((key) => {
+    const value = query![key];
+    if (value !== undefined && value !== null) search.set(key, String(value));
+  });
+  const qs = search.toString();
+  return apiUrl(qs ? `${path}?${qs}` : path);
+}
+
+async function errorFrom(res: Response): Promise<ApiError> {
+  const text = await res.text();
+  let body: unknown = text;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    // Not JSON; keep the text.
+  }
+  const message =
+    typeof body === "object" && body !== null && "error" in body && typeof body.error === "string"
+      ? body.error
+      : text || res.statusText;
+  return new ApiError(res.status, message, body);
+}
+
+// Calls an endpoint from the contract in @shared/api and reads the answer
+// through its response schema, which also turns timestamps back into Dates.
+export async function callApi<E extends Endpoint>(
+  endpoint: E,
+  ...[input]: InputArgs<E>
+): Promise<ApiResponse<E>> {
+  const parts = (input ?? {}) as RequestParts;
+  const headers: Record<string, string> = {};
+  if (parts.body !== undefined) headers["Content-Type"] = "application/json";
+  if (parts.restaurantId) headers["X-Restaurant-Id"] = parts.restaurantId;
+
+  const res = await fetch(endpointUrl(endpoint, parts), {
+    method: endpoint.method,
+    headers,
+    body: parts.body !== undefined ? JSON.stringify(parts.body) : undefined,
+    credentials: "include",
+  });
+
+  if (!res.ok) throw await errorFrom(res);
+  if (!endpoint.response) return undefined as ApiResponse<E>;
+
+  const result = endpoint.response.safeParse(await res.json());
+  if (!result.success) {
+    console.error(`Unexpected response from ${endpoint.method} ${endpoint.path}:`, result.error);
+    throw new Error("The server sent a response this screen doesn't understand");
+  }
+  return result.data;
+}
+
+// Cache keys start with the endpoint's path, so invalidating [endpoint.path]
+// refreshes every cached call to it whatever its parameters.
+export function apiQueryKey<E extends Endpoint>(endpoint: E, ...[input]: InputArgs<E>) {
+  return input ? ([endpoint.path, input] as const) : ([endpoint.path] as const);
+}
+
+type ApiQueryOptions<E extends Endpoint> = Omit<
+  UseQueryOptions<ApiResponse<E>, Error>,
+  "queryKey" | "queryFn"
+>;
+
+export function useApiQuery<E extends Endpoint>(
+  endpoint: E,
+  input: ApiInput<E>,
+  options?: ApiQueryOptions<E>,
+) {
+  const args = [input] as InputArgs<E>;
+  return useQuery<ApiResponse<E>, Error>({
+    ...options,
+    queryKey: apiQueryKey(endpoint, ...args),
+    queryFn: () => callApi(endpoint, ...args),
+  });
+}
@@ -0,0 +1,277 @@
+import {
+  HEARTBEAT_INTERVAL_MS,
+  serverMessageSchema,
+  type ServerEvent,
+  type ServerEventOf,
+  type ServerEventType,
+  type ServerMessage,
+} from "@shared/events";
+import { api } from "@shared/api";
+import { API_BASE_URL, callApi, eventStreamUrl, websocketUrl } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+
+// Reconnect attempts back off from one second up to half a minute.
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+// After this many failed attempts in a row the screen shows as offline,
+// though it keeps trying.
+const OFFLINE_AFTER_ATTEMPTS = 5;
+// A proxy may hold a blocked upgrade open rather than refuse it, so a
+// connection that hasn't been welcomed by then counts as failed.
+const WELCOME_TIMEOUT_MS = 10 * 1000;
+// Two missed heartbeats and the connection is assumed dead.
+const SILENCE_LIMIT_MS = 2 * HEARTBEAT_INTERVAL_MS + 5000;
+
+// "reconnecting" covers the first connection too.
+export type ConnectionStatus = "online" | "reconnecting" | "offline";
+
+// WebSocket first; Server-Sent Events when something between here and the
+// server won't let the upgrade through.
+type Transport = "websocket" | "sse";
+
+interface Connection {
+  transport: Transport;
+  welcomed: boolean;
+  close(): void;
+}
+
+type Handler = (event: ServerEvent) => void;
+
+// One connection for the whole app, opened with the first subscription and
+// closed when the last one goes away.
+const handlers = new Map<ServerEventType, Set<Handler>>();
+let connection: Connection | null = null;
+let transport: Transport = "websocket";
+let connecting = false;
+let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+let silenceTimer: ReturnType<typeof setTimeout> | undefined;
+let failedAttempts = 0;
+let status: ConnectionStatus = "reconnecting";
+const statusListeners = new Set<() => void>();
+// The last event this screen has seen, so a reconnect can pick up from it.
+let position: { epoch: string; seq: number } | null = null;
+
+function hasSubscribers() {
+  let any = false;
+  handlers.forEach((set) => {
+    if (set.size > 0) any = true;
+  });
+  return any;
+}
+
+function setStatus(next: ConnectionStatus) {
+  if (status === next) return;
+  status = next;
+  statusListeners.forEach((listener) => listener());
+}
+
+// Restarted by every message. A half-open connection may take a long time to
+// report its close, so when this runs out it is abandoned straight away.
+function watchForSilence(conn: Connection, limit: number) {
+  clearTimeout(silenceTimer);
+  silenceTimer = setTimeout(() => {
+    if (connection !== conn) return;
+    console.warn(`Realtime connection (${conn.transport}) went quiet; reconnecting`);
+    conn.close();
+    handleClose(conn);
+  }, limit);
+}
+
+function emit(event: ServerEvent) {
+  handlers.get(event.type)?.forEach((handler) => handler(event));
+}
+
+// Anything that doesn't match the shared schema is dropped here, so handlers
+// only ever see well-formed events.
+function parseMessage(data: string): ServerMessage | undefined {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(data);
+  } catch (error) {
+    console.error("Error parsing realtime message:", error);
+    return undefined;
+  }
+  const parsed = serverMessageSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error("Ignoring unexpected realtime message:", raw, parsed.error.issues);
+    return undefined;
+  }
+  return parsed.data;
+}
+
+function handleMessage(conn: Connection, data: string) {
+  if (connection !== conn) return;
+  watchForSilence(conn, SILENCE_LIMIT_MS);
+  const message = parseMessage(data);
+  if (!message || message.kind === "heartbeat") return;
+
+  if (message.kind === "welcome") {
+    conn.welcomed = true;
+    failedAttempts = 0;
+    setStatus("online");
+    // When the server can't replay what was missed, every cached answer may
+    // be out of date; start counting again from where the server is now.
+    if (message.resync) queryClient.invalidateQueries();
+    if (message.resync || position?.epoch !== message.epoch) {
+      position = { epoch: message.epoch, seq: message.seq };
+    }
+    return;
+  }
+
+  // A replay can overlap events already handled before the drop.
+  if (position && message.seq <= position.seq) return;
+  if (position) position.seq = message.seq;
+  emit(message.event);
+}
+
+// A WebSocket that never got as far as the welcome is probably being blocked,
+// so event streaming gets a go straight away. If that works it is kept for
+// the rest of the session; if it doesn't either, the server itself is likely
+// down and the next attempt starts from WebSocket again after the backoff.
+function handleClose(conn: Connection) {
+  if (connection !== conn) return;
+  connection = null;
+  clearTimeout(silenceTimer);
+
+  if (!conn.welcomed && conn.transport === "websocket") {
+    console.warn("WebSocket unavailable; trying Server-Sent Events");
+    transport = "sse";
+    connect();
+    return;
+  }
+  if (!conn.welcomed && conn.transport === "sse") transport = "websocket";
+  scheduleReconnect();
+}
+
+async function connectionUrl(base: string) {
+  const params = new URLSearchParams();
+  if (position) {
+    params.set("epoch", position.epoch);
+    params.set("since", String(position.seq));
+  }
+  // A server on another origin won't see the session cookie.
+  if (API_BASE_URL) params.set("token", (await callApi(api.realtime.token)).token);
+  const query = params.toString();
+  return query ? `${base}?${query}` : base;
+}
+
+function openWebSocket(url: string): Connection {
+  const ws = new WebSocket(url);
+  const conn: Connection = { transport: "websocket", welcomed: false, close: () => ws.close() };
+  ws.onopen = () => console.log("WebSocket connected");
+  ws.onmessage = (message) => handleMessage(conn, message.data);
+  ws.onerror = (error) => console.error("WebSocket error:", error);
+  ws.onclose = () => {
+    console.log("WebSocket disconnected");
+    handleClose(conn);
+  };
+  return conn;
+}
+
+// EventSource reconnects on its own, but without the resume parameters and
+// with no backoff, so errors are handled here like a WebSocket drop instead.
+function openEventSource(url: string): Connection {
+  const source = new EventSource(url);
+  const conn: Connection = { transport: "sse", welcomed: false, close: () => source.close() };
+  source.onopen = () => console.log("Event stream connected");
+  source.onmessage = (message) => handleMessage(conn, message.data);
+  source.onerror = () => {
+    console.log("Event stream disconnected");
+    source.close();
+    handleClose(conn);
+  };
+  return conn;
+}
+
+// Exponential backoff with jitter, so a restarted server isn't met by every
+// screen in the building at the same instant.
+function reconnectDelay(attempt: number) {
+  const ceiling = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function scheduleReconnect() {
+  if (reconnectTimer || !hasSubscribers()) return;
+  const offline = typeof navigator !== "undefined" && !navigator.onLine;
+  setStatus(offline || failedAttempts >= OFFLINE_AFTER_ATTEMPTS ? "offline" : "reconnecting");
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = undefined;
+    connect();
+  }, reconnectDelay(failedAttempts));
+  failedAttempts++;
+}
+
+// Don't sit out the backoff once the network is back.
+function reconnectNow() {
+  if (!reconnectTimer) return;
+  clearTimeout(reconnectTimer);
+  reconnectTimer = undefined;
+  connect();
+}
+
+if (typeof window !== "undefined") {
+  window.addEventListener("online", reconnectNow);
+  window.addEventListener("offline", () => {
+    if (hasSubscribers()) setStatus("offline");
+  });
+}
+
+async function connect() {
+  if (connection || connecting) return;
+  connecting = true;
+  try {
+    const using = transport;
+    const url = await connectionUrl(using === "websocket" ? websocketUrl() : eventStreamUrl());
+    // Everyone may have unsubscribed while the token was on its way.
+    if (!hasSubscribers()) return;
+    const conn = using === "websocket" ? openWebSocket(url) : openEventSource(url);
+    connection = conn;
+    watchForSilence(conn, WELCOME_TIMEOUT_MS);
+  } catch (error) {
+    console.error("Error opening realtime connection:", error);
+    scheduleReconnect();
+  } finally {
+    connecting = false;
+  }
+}
+
+// Nobody is listening any more, so there is nothing to catch up on later.
+function disconnect() {
+  clearTimeout(reconnectTimer);
+  clearTimeout(silenceTimer);
+  reconnectTimer = undefined;
+  failedAttempts = 0;
+  position = null;
+  setStatus("reconnecting");
+  const conn = connection;
+  connection = null;
+  conn?.close();
+}
+
+// Calls handler for every event of the given type until the returned
+// function is called.
+export function subscribe<T extends ServerEventType>(
+  type: T,
+  handler: (event: ServerEventOf<T>) => void,
+): () => void {
+  const wrapped = handler as Handler;
+  if (!handlers.has(type)) handlers.set(type, new Set());
+  handlers.get(type)!.add(wrapped);
+  connect();
+
+  return () => {
+    handlers.get(type)?.delete(wrapped);
+    if (!hasSubscribers()) disconnect();
+  };
+}
+
+export function getConnectionStatus(): ConnectionStatus {
+  return status;
+}
+
+export function subscribeToConnectionStatus(listener: () => void): () => void {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { ArrowLeft } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ANALYTICS_BUCKETS,
+  ANALYTICS_BUCKET_LABELS,
+  type AnalyticsBucket,
+  type RevenuePoint,
+} from "@shared/analytics";
+import { api } from "@shared/api";
+import { fromCents, toCents } from "@shared/money";
+import { addBusinessDays, formatInTimeZone } from "@shared/businessDay";
+import { useRestaurant } from "@/hooks/use-restaurant";
+import { useApiQuery } from "@/lib/api";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+const RANGE_DAYS = [1, 7, 30, 90, 365] as const;
+
+const RANGE_LABELS: Record<(typeof RANGE_DAYS)[number], string> = {
+  1: "Today",
+  7: "Last 7 days",
+  30: "Last 30 days",
+  90: "Last 90 days",
+  365: "Last 12 months",
+};
+
+const BUCKET_FORMATS: Record<AnalyticsBucket, Intl.DateTimeFormatOptions> = {
+  hour: { day: "2-digit", month: "short", hour: "2-digit", minute: "2-digit", hourCycle: "h23" },
+  day: { day: "2-digit", month: "short" },
+  week: { day: "2-digit", month: "short" },
+  month: { month: "short", year: "numeric" },
+};
+
+const chartConfig = {
+  revenue: { label: "Revenue (₹)", color: "hsl(var(--chart-1))" },
+  orders: { label: "Orders", color: "hsl(var(--chart-2))" },
+  averageTicket: { label: "Average ticket (₹)", color: "hsl(var(--chart-3))" },
+} satisfies ChartConfig;
+
+// Series values arrive as money strings; recharts needs numbers. Buckets are
+// labelled on the restaurant's clock, not the browser's.
+function toChartRows(points: RevenuePoint[], bucket: AnalyticsBucket, timeZone: string) {
+  return points.map((point) => ({
+    label: `${bucket === "week" ? "Wk of " : ""}${formatInTimeZone(
+      point.bucket,
+      timeZone,
+      BUCKET_FORMATS[bucket],
+    )}`,
+    revenue: Number(point.revenue),
+    orders: point.orders,
+    averageTicket: Number(point.averageTicket),
+  }));
+}
+
+export default function Analytics() {
+  const [days, setDays] = useState<(typeof RANGE_DAYS)[number]>(30);
+  const [bucket, setBucket] = useState<AnalyticsBucket>("day");
+  const { timeZone, today } = useRestaurant();
+  // Business dates, so "today" follows the restaurant's day cutover.
+  const to = today();
+  const from = addBusinessDays(to, 1 - days);
+
+  const { data: series = [], isLoading } = useApiQuery(api.analytics.revenue, {
+    query: { bucket, from, to },
+  });
+  const { data: topItems = [] } = useApiQuery(api.analytics.topItems, {
+    query: { from, to, limit: 10 },
+  });
+
+  const rows = toChartRows(series, bucket, timeZone);
+  const revenueCents = series.reduce((sum, point) => sum + toCents(point.revenue), 0);
+  const orderCount = series.reduce((sum, point) => sum + point.orders, 0);
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Link href="/">
+            <Button variant="ghost" size="icon" aria-label="Back to dashboard">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">Analytics</h1>
+        </div>
+        <div className="flex gap-2">
+          <Select value={String(days)} onValueChange={(value) => setDays(Number(value) as typeof days)}>
+            <SelectTrigger className="w-40" data-testid="select-analytics-range">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RANGE_DAYS.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {RANGE_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={bucket} onValueChange={(value) => setBucket(value as AnalyticsBucket)}>
+            <SelectTrigger className="w-32" data-testid="select-analytics-bucket">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANALYTICS_BUCKETS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {ANALYTICS_BUCKET_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="p-6">
+          <p className="text-sm text-muted-foreground">Revenue</p>
+          <p className="text-3xl font-bold" data-testid="text-analytics-revenue">
+            ₹{fromCents(revenueCents)}
+          </p>
+        </Card>
+        <Card className="p-6">
+          <p className="text-sm text-muted-foreground">Completed orders</p>
+          <p className="text-3xl font-bold" data-testid="text-analytics-orders">
+            {orderCount}
+          </p>
+        </Card>
+        <Card className="p-6">
+          <p className="text-sm text-muted-foreground">Average ticket</p>
+          <p className="text-3xl font-bold" data-testid="text-analytics-average">
+            ₹{fromCents(orderCount ? Math.round(revenueCents / orderCount) : 0)}
+          </p>
+        </Card>
+      </div>
+
+      {isLoading ? (
+        <div className="p-4 text-center">Loading analytics...</div>
+      ) : rows.length === 0 ? (
+        <Card className="p-6 text-center text-muted-foreground">
+          No completed orders in this period.
+        </Card>
+      ) : (
+        <>
+          <Card className="p-6 space-y-4">
+            <h2 className="text-xl font-semibold">Revenue</h2>
+            <ChartContainer config={chartConfig} className="h-72 w-full">
+              <BarChart data={rows}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} width={60} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="revenue" fill="var(--color-revenue)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </Card>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card className="p-6 space-y-4">
+              <h2 className="text-xl font-semibold">Orders</h2>
+              <ChartContainer config={chartConfig} className="h-60 w-full">
+                <LineChart data={rows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={40} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line dataKey="orders" stroke="var(--color-orders)" strokeWidth={2} dot={false} />
+                </LineChart>
+              </ChartContainer>
+            </Card>
+            <Card className="p-6 space-y-4">
+              <h2 className="text-xl font-semibold">Average ticket</h2>
+              <ChartContainer config={chartConfig} className="h-60 w-full">
+                <LineChart data={rows}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} width={60} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Line
+                    dataKey="averageTicket"
+                    stroke="var(--color-averageTicket)"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            </Card>
+          </div>
+        </>
+      )}
+
+      <Card className="p-6 space-y-4">
+        <h2 className="text-xl font-semibold">Top sellers</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead className="text-right">Sold</TableHead>
+              <TableHead className="text-right">Revenue (pre-tax)</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {topItems.map((item) => (
+              <TableRow key={item.name} data-testid={`row-top-item-${item.name}`}>
+                <TableCell>{item.name}</TableCell>
+                <TableCell className="text-right">{item.quantity}</TableCell>
+                <TableCell className="text-right">₹{item.revenue}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+    </div>
+  );
+}
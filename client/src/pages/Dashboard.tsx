@@ -1,74 +1,91 @@
 import { useState, useEffect, useCallback } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
 import OrderCard from "@/components/OrderCard";
 import RevenueCard from "@/components/RevenueCard";
 import EmptyState from "@/components/EmptyState";
+import SoldOutPanel from "@/components/SoldOutPanel";
+import ShiftBar from "@/components/ShiftBar";
+import ConnectionBadge from "@/components/ConnectionBadge";
+import type { DayRange } from "@/components/DateRangePicker";
 import { useSound } from "@/hooks/use-sound";
 import { useWebSocket } from "@/hooks/use-websocket";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth, usePermissions } from "@/hooks/use-auth";
+import { useRestaurant } from "@/hooks/use-restaurant";
 import { queryClient } from "@/lib/queryClient";
-import type { Order } from "@shared/schema";
+import { apiQueryKey, callApi, useApiQuery } from "@/lib/api";
+import { api } from "@shared/api";
+import type { OrderWithItems } from "@shared/schema";
+import { ORDER_STATUS_LABELS, isTerminalStatus, type OrderStatus } from "@shared/orderStatus";
+import { ROLE_LABELS, STATUS_PERMISSIONS } from "@shared/permissions";
 import { Button } from "@/components/ui/button";
 
-const BACKEND_URL = "https://nevolt-backend.onrender.com";
-const RESTAURANT_ID = "res-1";
-
 export default function Dashboard() {
   const { playNotificationSound } = useSound();
   const { toast } = useToast();
+  const { user, logoutMutation } = useAuth();
+  const { can } = usePermissions();
+  const restaurantId = user!.restaurantId;
 
   const [newOrderIds, setNewOrderIds] = useState<Set<string>>(new Set());
-  const [lastResetOrderId, setLastResetOrderId] = useState<number>(() =>
-    parseInt(localStorage.getItem("last_reset_order_id") || "0")
+  const { restaurant, today } = useRestaurant();
+  const businessToday = today();
+  // Until someone picks a range, the card follows the current business day.
+  const [pickedRange, setPickedRange] = useState<DayRange | null>(null);
+  const revenueRange = pickedRange ?? { from: businessToday, to: businessToday };
+
+  // 🟢 Fetch the orders of the current shift
+  const { data: orders = [], isLoading } = useApiQuery(
+    api.orders.list,
+    { query: { shift_id: "current" }, restaurantId },
+    { refetchInterval: 10000 },
   );
 
-  // 🟢 Fetch all orders
-  const { data: orders = [], isLoading } = useQuery<Order[]>({
-    queryKey: ["/api/orders"],
-    queryFn: async () => {
-      const res = await fetch(`${BACKEND_URL}/api/orders?restaurant_id=${RESTAURANT_ID}`);
-      if (!res.ok) throw new Error("Failed to fetch orders");
-      const data = await res.json();
-
-      return data.map((order: any) => ({
-        ...order,
-        items:
-          typeof order.items === "string"
-            ? JSON.parse(order.items || "[]")
-            : Array.isArray(order.items)
-            ? order.items
-            : [],
-      }));
-    },
-    refetchInterval: 10000,
-  });
+  // Revenue comes from the server for whole business days, so it no longer
+  // depends on which orders this screen happens to have loaded.
+  const { data: revenueComparison } = useApiQuery(
+    api.analytics.summary,
+    { query: revenueRange },
+    { enabled: can("revenue:view") && !!restaurant, refetchInterval: 10000 },
+  );
 
-  // 🟡 Complete order mutation
-  const completeOrderMutation = useMutation({
-    mutationFn: async (orderId: string) => {
-      const res = await fetch(`${BACKEND_URL}/api/orders/${orderId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ status: "completed" }),
-      });
-      if (!res.ok) throw new Error("Failed to update order");
-      return res.json();
-    },
+  // 🟡 Order status mutation (transitions are validated server-side)
+  const updateStatusMutation = useMutation({
+    mutationFn: ({ orderId, status }: { orderId: string; status: OrderStatus }) =>
+      callApi(api.orders.updateStatus, {
+        params: { id: orderId },
+        body: { status },
+        restaurantId,
+      }),
     onSuccess: (updatedOrder) => {
-      queryClient.setQueryData<Order[]>(["/api/orders"], (oldOrders = []) =>
-        oldOrders.map((o) => (o.id === updatedOrder.id ? updatedOrder : o))
+      queryClient.setQueriesData<OrderWithItems[]>({ queryKey: [api.orders.list.path] }, (oldOrders) =>
+        oldOrders?.map((o) => (o.id === updatedOrder.id ? updatedOrder : o))
       );
+      queryClient.invalidateQueries({
+        queryKey: apiQueryKey(api.orders.timeline, { params: { id: updatedOrder.id } }),
+      });
+      queryClient.invalidateQueries({ queryKey: [api.analytics.summary.path] });
       toast({
-        title: "✅ Order Completed",
-        description: `Order #${updatedOrder.id} marked as completed.`,
+        title: `Order ${ORDER_STATUS_LABELS[updatedOrder.status]}`,
+        description: `Order #${updatedOrder.orderNumber} is now ${updatedOrder.status}.`,
       });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not update order",
+        description: error.message,
+        variant: "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: [api.orders.list.path] });
+    },
   });
 
   // 🧠 Handle new order event
   const handleNewOrder = useCallback(
-    (order: Order) => {
-      queryClient.setQueryData<Order[]>(["/api/orders"], (oldOrders = []) => {
+    (order: OrderWithItems) => {
+      queryClient.setQueriesData<OrderWithItems[]>({ queryKey: [api.orders.list.path] }, (oldOrders) => {
+        if (!oldOrders) return oldOrders;
         const exists = oldOrders.find((o) => o.id === order.id);
         if (exists) return oldOrders;
         return [order, ...oldOrders];
@@ -77,18 +94,24 @@ export default function Dashboard() {
       playNotificationSound();
       toast({
         title: "🔔 New Order Received!",
-        description: `Order #${order.id} from table ${order.table_no}`,
+        description: `Order #${order.orderNumber} from ${order.customerName || "a guest"}`,
       });
     },
     [playNotificationSound, toast]
   );
 
+  // Changes made on other screens, including cancellations, replace the order in place.
+  const applyOrderChange = useCallback((order: OrderWithItems) => {
+    queryClient.setQueriesData<OrderWithItems[]>({ queryKey: [api.orders.list.path] }, (oldOrders) =>
+      oldOrders?.map((o) => (o.id === order.id ? order : o))
+    );
+  }, []);
+
   // 🔔 WebSocket
   useWebSocket({
-    url: BACKEND_URL.replace("http", "ws"),
-    onMessage: (data) => {
-      if (data.type === "new_order") handleNewOrder(data.order);
-    },
+    ORDER_CREATED: (event) => handleNewOrder(event.order),
+    ORDER_UPDATED: (event) => applyOrderChange(event.order),
+    ORDER_CANCELLED: (event) => applyOrderChange(event.order),
   });
 
   // Reset highlight after 5s
@@ -101,64 +124,86 @@ export default function Dashboard() {
 
   if (isLoading) return <div className="p-4 text-center">Loading orders...</div>;
 
-  // 🧩 Apply reset filter
-  const filteredOrders = orders.filter((o) => o.id > lastResetOrderId);
-  const pendingOrders = filteredOrders.filter((o) => o.status === "pending");
-  const completedOrders = filteredOrders.filter((o) => o.status === "completed");
-
-  // ✅ Revenue (backend field = total)
-  const totalRevenue = completedOrders.reduce((sum, o) => {
-    const value =
-      typeof o.total === "string"
-        ? parseFloat(o.total)
-        : typeof o.total === "number"
-        ? o.total
-        : 0;
-    return sum + (isNaN(value) ? 0 : value);
-  }, 0);
-
-  // 🔴 Reset logic
-  const handleReset = () => {
-    if (confirm("Do you want to reset the dashboard?")) {
-      const latestId = Math.max(...orders.map((o) => o.id), 0);
-      localStorage.setItem("last_reset_order_id", latestId.toString());
-      setLastResetOrderId(latestId);
-      toast({ title: "Dashboard Reset Done" });
-    }
-  };
+  // The server scopes orders to the open shift, so every screen shows the same set.
+  const activeOrders = orders.filter((o) => !isTerminalStatus(o.status));
+  const completedOrders = orders.filter((o) => o.status === "completed");
+  const closedOrders = orders.filter(
+    (o) => o.status === "cancelled" || o.status === "rejected"
+  );
 
   return (
     <div className="p-4 space-y-6">
       <div className="flex justify-between items-center">
-        <h1 className="text-2xl font-bold">Dashboard</h1>
-        <Button variant="destructive" onClick={handleReset}>
-          Reset
-        </Button>
+        <div className="flex items-center gap-2">
+          <h1 className="text-2xl font-bold">Dashboard</h1>
+          <ConnectionBadge />
+        </div>
+        <div className="flex items-center gap-2">
+          <span className="text-sm text-muted-foreground">
+            {user!.displayName} · {ROLE_LABELS[user!.role]}
+          </span>
+          {can("revenue:view") && (
+            <Link href="/analytics">
+              <Button variant="outline" data-testid="link-analytics">
+                Analytics
+              </Button>
+            </Link>
+          )}
+          {can("menu:manage") && (
+            <Link href="/menu">
+              <Button variant="outline" data-testid="link-menu">
+                Menu
+              </Button>
+            </Link>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+            data-testid="button-logout"
+          >
+            Log out
+          </Button>
+        </div>
       </div>
 
-      <RevenueCard
-        todayRevenue={totalRevenue.toFixed(2)}
-        completedOrders={completedOrders.length}
-        averageOrderValue={
-          completedOrders.length > 0
-            ? (totalRevenue / completedOrders.length).toFixed(2)
-            : "0.00"
-        }
+      <ShiftBar
+        canManage={can("shifts:manage")}
+        canCloseDay={can("day:close")}
+        canViewReports={can("revenue:view")}
       />
 
+      {can("revenue:view") && (
+        <RevenueCard
+          range={revenueRange}
+          today={businessToday}
+          onRangeChange={setPickedRange}
+          comparison={revenueComparison}
+        />
+      )}
+
+      <SoldOutPanel canToggle={can("menu:availability")} />
+
       {/* Active Orders */}
       <div>
         <h2 className="text-xl font-semibold mb-4">Active Orders</h2>
-        {pendingOrders.length === 0 ? (
-          <EmptyState message="No active orders at the moment." />
+        {activeOrders.length === 0 ? (
+          <EmptyState type="pending" />
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-            {pendingOrders.map((order) => (
+            {activeOrders.map((order) => (
               <OrderCard
                 key={order.id}
                 order={order}
+                restaurantId={restaurantId}
                 isNew={newOrderIds.has(order.id)}
-                onComplete={() => completeOrderMutation.mutate(order.id)}
+                onStatusChange={(status) =>
+                  updateStatusMutation.mutate({ orderId: order.id, status })
+                }
+                canChangeTo={(status) => can(STATUS_PERMISSIONS[status])}
+                canSettle={can("payments:settle")}
+                canVoid={can("orders:void")}
+                canRefund={can("orders:refund")}
               />
             ))}
           </div>
@@ -169,15 +214,39 @@ export default function Dashboard() {
       <div>
         <h2 className="text-xl font-semibold mb-2">Completed Orders</h2>
         {completedOrders.length === 0 ? (
-          <EmptyState message="No completed orders yet." />
+          <EmptyState type="completed" />
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {completedOrders.map((order) => (
-              <OrderCard key={order.id} order={order} />
+              <OrderCard
+                key={order.id}
+                order={order}
+                restaurantId={restaurantId}
+                canVoid={can("orders:void")}
+                canRefund={can("orders:refund")}
+              />
             ))}
           </div>
         )}
       </div>
+
+      {/* Cancelled / Rejected Orders */}
+      {closedOrders.length > 0 && (
+        <div>
+          <h2 className="text-xl font-semibold mb-2">Cancelled &amp; Rejected</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+            {closedOrders.map((order) => (
+              <OrderCard
+                key={order.id}
+                order={order}
+                restaurantId={restaurantId}
+                canVoid={can("orders:void")}
+                canRefund={can("orders:refund")}
+              />
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,292 @@
+import { useMemo, useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { ArrowLeft, Pencil, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import type { InsertMenuItem, MenuItem, ModifierGroupInput } from "@shared/schema";
+import { api } from "@shared/api";
+import { callApi, useApiQuery } from "@/lib/api";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/use-websocket";
+import { usePermissions } from "@/hooks/use-auth";
+import MenuItemDialog from "@/components/MenuItemDialog";
+import ModifierGroupsDialog from "@/components/ModifierGroupsDialog";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export default function MenuEditor() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const canEdit = can("menu:manage");
+  const canToggleAvailability = can("menu:availability");
+
+  const [newCategoryName, setNewCategoryName] = useState("");
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingItem, setEditingItem] = useState<MenuItem | undefined>();
+  const [modifiersItem, setModifiersItem] = useState<MenuItem | undefined>();
+
+  const { data: menu, isLoading } = useApiQuery(api.menu.get, {});
+  const categories = menu?.categories ?? [];
+  const items = menu?.items ?? [];
+  const modifierGroups = menu?.modifierGroups ?? [];
+  // Memoized so the dialog only reloads its form when the data really changes.
+  const modifiersItemGroups = useMemo(
+    () => (menu?.modifierGroups ?? []).filter((group) => group.menuItemId === modifiersItem?.id),
+    [menu, modifiersItem],
+  );
+
+  const onMutationError = (error: Error) => {
+    toast({ title: "Could not save the menu", description: error.message, variant: "destructive" });
+  };
+  const refreshMenu = () => queryClient.invalidateQueries({ queryKey: [api.menu.get.path] });
+
+  // Edits from other screens show up here too.
+  useWebSocket({ MENU_CHANGED: refreshMenu, MENU_ITEM_AVAILABILITY: refreshMenu });
+
+  const createCategoryMutation = useMutation({
+    mutationFn: (name: string) =>
+      callApi(api.menu.createCategory, { body: { name, position: categories.length } }),
+    onSuccess: () => {
+      setNewCategoryName("");
+      refreshMenu();
+    },
+    onError: onMutationError,
+  });
+
+  const deleteCategoryMutation = useMutation({
+    mutationFn: (id: string) => callApi(api.menu.deleteCategory, { params: { id } }),
+    onSuccess: refreshMenu,
+    onError: onMutationError,
+  });
+
+  const saveItemMutation = useMutation({
+    mutationFn: (values: InsertMenuItem) =>
+      editingItem
+        ? callApi(api.menu.updateItem, { params: { id: editingItem.id }, body: values })
+        : callApi(api.menu.createItem, { body: values }),
+    onSuccess: () => {
+      setDialogOpen(false);
+      refreshMenu();
+    },
+    onError: onMutationError,
+  });
+
+  const toggleAvailabilityMutation = useMutation({
+    mutationFn: ({ id, isAvailable }: { id: string; isAvailable: boolean }) =>
+      callApi(api.menu.setAvailability, { params: { id }, body: { isAvailable } }),
+    onSuccess: refreshMenu,
+    onError: onMutationError,
+  });
+
+  const saveModifiersMutation = useMutation({
+    mutationFn: ({ itemId, groups }: { itemId: string; groups: ModifierGroupInput[] }) =>
+      callApi(api.menu.replaceModifiers, { params: { id: itemId }, body: { groups } }),
+    onSuccess: () => {
+      setModifiersItem(undefined);
+      refreshMenu();
+    },
+    onError: onMutationError,
+  });
+
+  const deleteItemMutation = useMutation({
+    mutationFn: (id: string) => callApi(api.menu.deleteItem, { params: { id } }),
+    onSuccess: refreshMenu,
+    onError: onMutationError,
+  });
+
+  const openItemDialog = (item?: MenuItem) => {
+    setEditingItem(item);
+    setDialogOpen(true);
+  };
+
+  if (isLoading) return <div className="p-4 text-center">Loading menu...</div>;
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="flex items-center gap-2">
+        <Link href="/">
+          <Button variant="ghost" size="icon" aria-label="Back to dashboard">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+        </Link>
+        <h1 className="text-2xl font-bold">Menu</h1>
+      </div>
+
+      {/* Categories */}
+      <Card className="p-6 space-y-4">
+        <h2 className="text-xl font-semibold">Categories</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead className="text-right">Items</TableHead>
+              {canEdit && <TableHead className="w-12" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {categories.map((category) => (
+              <TableRow key={category.id}>
+                <TableCell>{category.name}</TableCell>
+                <TableCell className="text-right">
+                  {items.filter((item) => item.categoryId === category.id).length}
+                </TableCell>
+                {canEdit && (
+                  <TableCell>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label={`Delete ${category.name}`}
+                      onClick={() => deleteCategoryMutation.mutate(category.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+        {canEdit && (
+          <form
+            className="flex gap-2"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (newCategoryName.trim()) createCategoryMutation.mutate(newCategoryName.trim());
+            }}
+          >
+            <Input
+              placeholder="New category"
+              value={newCategoryName}
+              onChange={(event) => setNewCategoryName(event.target.value)}
+              data-testid="input-category-name"
+            />
+            <Button type="submit" disabled={createCategoryMutation.isPending}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add
+            </Button>
+          </form>
+        )}
+      </Card>
+
+      {/* Items */}
+      <Card className="p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold">Items</h2>
+          {canEdit && (
+            <Button
+              onClick={() => openItemDialog()}
+              disabled={categories.length === 0}
+              data-testid="button-add-item"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add item
+            </Button>
+          )}
+        </div>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead>Available</TableHead>
+              {canEdit && <TableHead className="w-32" />}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item) => (
+              <TableRow key={item.id}>
+                <TableCell>
+                  <div className="font-medium">{item.name}</div>
+                  {item.description && (
+                    <div className="text-xs text-muted-foreground">{item.description}</div>
+                  )}
+                  {modifierGroups.some((group) => group.menuItemId === item.id) && (
+                    <div className="text-xs text-muted-foreground">
+                      {modifierGroups
+                        .filter((group) => group.menuItemId === item.id)
+                        .map((group) => group.name)
+                        .join(" · ")}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {categories.find((category) => category.id === item.categoryId)?.name}
+                </TableCell>
+                <TableCell className="text-right">₹{item.price}</TableCell>
+                <TableCell>
+                  <Switch
+                    checked={item.isAvailable}
+                    disabled={!canToggleAvailability}
+                    onCheckedChange={(isAvailable) =>
+                      toggleAvailabilityMutation.mutate({ id: item.id, isAvailable })
+                    }
+                    aria-label={`${item.name} available`}
+                  />
+                </TableCell>
+                {canEdit && (
+                  <TableCell className="flex gap-1 justify-end">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label={`Modifiers for ${item.name}`}
+                      onClick={() => setModifiersItem(item)}
+                    >
+                      <SlidersHorizontal className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label={`Edit ${item.name}`}
+                      onClick={() => openItemDialog(item)}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      aria-label={`Delete ${item.name}`}
+                      onClick={() => deleteItemMutation.mutate(item.id)}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                )}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <MenuItemDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        categories={categories}
+        item={editingItem}
+        isSaving={saveItemMutation.isPending}
+        onSave={(values) => saveItemMutation.mutate(values)}
+      />
+
+      <ModifierGroupsDialog
+        open={!!modifiersItem}
+        onOpenChange={(open) => !open && setModifiersItem(undefined)}
+        item={modifiersItem}
+        groups={modifiersItemGroups}
+        isSaving={saveModifiersMutation.isPending}
+        onSave={({ groups }) =>
+          modifiersItem && saveModifiersMutation.mutate({ itemId: modifiersItem.id, groups })
+        }
+      />
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { Link, useParams } from "wouter";
+import { ArrowLeft, Printer } from "lucide-react";
+import { api } from "@shared/api";
+import { PAYMENT_METHOD_LABELS } from "@shared/payments";
+import { ORDER_STATUS_LABELS } from "@shared/orderStatus";
+import { useRestaurant } from "@/hooks/use-restaurant";
+import { useApiQuery } from "@/lib/api";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+function Row({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
+  return (
+    <div className={`flex justify-between py-1 ${strong ? "font-semibold border-t mt-1 pt-2" : ""}`}>
+      <span className={strong ? "" : "text-muted-foreground"}>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+}
+
+// Printable end-of-shift report. The print button hides the page chrome and
+// leaves just the figures.
+export default function ZReport() {
+  const { shiftId } = useParams<{ shiftId: string }>();
+  const { formatTime } = useRestaurant();
+  // Report times are on the restaurant's clock.
+  const formatStamp = (value: string | Date | null) =>
+    value
+      ? formatTime(value, { dateStyle: "medium", timeStyle: "short", hourCycle: "h23" })
+      : "Still open";
+  const { data: report, isLoading, error } = useApiQuery(api.reports.z, { params: { shiftId } });
+
+  if (isLoading) return <div className="p-4 text-center">Loading report...</div>;
+  if (error || !report) {
+    return <div className="p-4 text-center text-destructive">Could not load the report.</div>;
+  }
+
+  const { shift, cash } = report;
+
+  return (
+    <div className="p-4 space-y-6 max-w-3xl mx-auto print:p-0">
+      <div className="flex items-center justify-between gap-2 print:hidden">
+        <div className="flex items-center gap-2">
+          <Link href="/">
+            <Button variant="ghost" size="icon" aria-label="Back to dashboard">
+              <ArrowLeft className="w-4 h-4" />
+            </Button>
+          </Link>
+          <h1 className="text-2xl font-bold">Z-report</h1>
+        </div>
+        <Button onClick={() => window.print()} data-testid="button-print-report">
+          <Printer className="w-4 h-4 mr-1" /> Print
+        </Button>
+      </div>
+
+      <Card className="p-6 space-y-1 text-sm print:border-0 print:shadow-none">
+        <h2 className="text-xl font-semibold mb-2">Shift summary</h2>
+        <Row label="Opened" value={`${formatStamp(shift.openedAt)} by ${shift.openedBy}`} />
+        <Row
+          label="Closed"
+          value={shift.closedBy ? `${formatStamp(shift.closedAt)} by ${shift.closedBy}` : "Still open"}
+        />
+        <Row label="Orders" value={String(report.orderCount)} />
+        <Row label="Printed" value={formatStamp(report.generatedAt)} />
+        {shift.notes && <Row label="Notes" value={shift.notes} />}
+      </Card>
+
+      <Card className="p-6 text-sm print:border-0 print:shadow-none">
+        <h2 className="text-xl font-semibold mb-2">Sales</h2>
+        <Row label="Gross sales" value={`₹${report.grossSales}`} />
+        <Row label="Discounts" value={`−₹${report.discounts}`} />
+        <Row label="Net sales" value={`₹${report.netSales}`} strong />
+        <Row label="Taxes" value={`₹${report.taxes}`} />
+        <Row label="Service charge" value={`₹${report.serviceCharge}`} />
+        <Row label="Rounding" value={`₹${report.rounding}`} />
+        <Row label="Total billed" value={`₹${report.totalSales}`} strong />
+        <Row label="Refunds" value={`−₹${report.refunds}`} />
+        <Row label={`Voids (${report.voids.count})`} value={`₹${report.voids.amount}`} />
+        <Row label="Unpaid balance" value={`₹${report.outstanding}`} />
+      </Card>
+
+      <Card className="p-6 text-sm print:border-0 print:shadow-none">
+        <h2 className="text-xl font-semibold mb-2">Tenders</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Method</TableHead>
+              <TableHead className="text-right">Payments</TableHead>
+              <TableHead className="text-right">Received</TableHead>
+              <TableHead className="text-right">Refunded</TableHead>
+              <TableHead className="text-right">Net</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.tenders.map((tender) => (
+              <TableRow key={tender.method} data-testid={`row-tender-${tender.method}`}>
+                <TableCell>{PAYMENT_METHOD_LABELS[tender.method]}</TableCell>
+                <TableCell className="text-right">{tender.payments}</TableCell>
+                <TableCell className="text-right">₹{tender.received}</TableCell>
+                <TableCell className="text-right">₹{tender.refunded}</TableCell>
+                <TableCell className="text-right">₹{tender.net}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <Card className="p-6 text-sm print:border-0 print:shadow-none">
+        <h2 className="text-xl font-semibold mb-2">Orders by status</h2>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Orders</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.ordersByStatus.map((summary) => (
+              <TableRow key={summary.status}>
+                <TableCell>{ORDER_STATUS_LABELS[summary.status]}</TableCell>
+                <TableCell className="text-right">{summary.count}</TableCell>
+                <TableCell className="text-right">₹{summary.total}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </Card>
+
+      <Card className="p-6 text-sm print:border-0 print:shadow-none">
+        <h2 className="text-xl font-semibold mb-2">Cash drawer</h2>
+        <Row label="Opening float" value={`₹${cash.openingFloat}`} />
+        <Row label="Cash received" value={`₹${cash.cashReceived}`} />
+        <Row label="Cash refunded" value={`−₹${cash.cashRefunded}`} />
+        <Row label="Expected in drawer" value={`₹${cash.expected}`} strong />
+        <Row label="Counted" value={cash.counted === null ? "Not counted yet" : `₹${cash.counted}`} />
+        {cash.variance !== null && (
+          <div
+            className={`flex justify-between py-1 font-semibold ${
+              cash.variance.startsWith("-") ? "text-destructive" : ""
+            }`}
+            data-testid="text-cash-variance"
+          >
+            <span>{cash.variance.startsWith("-") ? "Short" : "Over"}</span>
+            <span>₹{cash.variance.replace("-", "")}</span>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URL of the API server, e.g. "https://pos.example.com". Unset means
+  // the origin the app is served from. A server on another origin must have
+  // CORS_ORIGIN set to this app's origin and be served over HTTPS.
+  readonly VITE_API_BASE_URL?: string;
+}
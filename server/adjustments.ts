@@ -0,0 +1,141 @@
+import type { Express, Request } from "express";
+import {
+  refundOrderSchema,
+  voidOrderSchema,
+  type ManagerApproval,
+} from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { fromCents, toCents } from "@shared/money";
+import { orderChangedEvent } from "@shared/events";
+import type { api } from "@shared/api";
+import { OrderConflictError, storage } from "./storage";
+import { requirePermission, verifyManagerApproval } from "./auth";
+import { isOrderLocked } from "./shifts";
+import type { Broadcast } from "./realtime";
+import type { ApiRes } from "./contract";
+
+type Approval = { approvedBy: string | null } | { error: string };
+
+// Who signs off an adjustment. Staff who can approve sign off their own;
+// otherwise, when the restaurant requires it, a manager's credentials must
+// come with the request.
+async function approvalFor(
+  req: Request,
+  required: boolean,
+  credentials: ManagerApproval | undefined,
+): Promise<Approval> {
+  if (hasPermission(req.user!.role, "adjustments:approve")) {
+    return { approvedBy: req.user!.displayName };
+  }
+  if (!required) return { approvedBy: null };
+  if (!credentials) return { error: 'Manager approval required' };
+
+  const approver = await verifyManagerApproval(req.restaurant!.id, credentials);
+  return approver
+    ? { approvedBy: approver.displayName }
+    : { error: 'Manager approval was not accepted' };
+}
+
+// Must be registered after the /api/orders auth and restaurant middleware.
+export function registerAdjustmentRoutes(app: Express, broadcast: Broadcast) {
+  // Voiding cancels an open order that nothing has been paid against.
+  app.post('/api/orders/:id/void', requirePermission('orders:void'), async (req, res: ApiRes<typeof api.orders.void>) => {
+    try {
+      const { id } = req.params;
+      const { reasonCode, note, approval } = voidOrderSchema.parse(req.body);
+      const existing = await storage.getOrder(req.restaurant!.id, id);
+
+      if (!existing) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      if (await isOrderLocked(req.restaurant!.id, existing)) {
+        return res.status(409).json({ error: 'This order belongs to a closed shift' });
+      }
+
+      const signOff = await approvalFor(req, req.restaurant!.voidApprovalRequired, approval);
+
+      if ('error' in signOff) {
+        return res.status(403).json({ error: signOff.error, approvalRequired: true });
+      }
+
+      const order = await storage.recordAdjustment(req.restaurant!.id, id, {
+        kind: 'void',
+        reasonCode,
+        note,
+        amount: existing.totalPrice,
+        requestedBy: req.user!.displayName,
+        approvedBy: signOff.approvedBy,
+      });
+
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      broadcast(req.restaurant!.id, orderChangedEvent(order));
+
+      res.status(201).json(order);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid void data', details: error.errors });
+      }
+      if (error instanceof OrderConflictError) {
+        return res.status(409).json({ error: error.message, ...error.details });
+      }
+      console.error('Server error voiding order:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Refunds give back some or all of what has been paid on an order, even one
+  // from a closed shift; storage books them to the shift open now.
+  app.post('/api/orders/:id/refunds', requirePermission('orders:refund'), async (req, res: ApiRes<typeof api.orders.refund>) => {
+    try {
+      const { id } = req.params;
+      const { reasonCode, note, amount, method, approval } = refundOrderSchema.parse(req.body);
+      const existing = await storage.getOrder(req.restaurant!.id, id);
+
+      if (!existing) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      const limit = req.restaurant!.refundApprovalLimit;
+      const signOff = await approvalFor(
+        req,
+        limit !== null && toCents(amount) > toCents(limit),
+        approval,
+      );
+
+      if ('error' in signOff) {
+        return res.status(403).json({ error: signOff.error, approvalRequired: true });
+      }
+
+      const order = await storage.recordAdjustment(req.restaurant!.id, id, {
+        kind: 'refund',
+        reasonCode,
+        note,
+        amount: fromCents(toCents(amount)),
+        method,
+        requestedBy: req.user!.displayName,
+        approvedBy: signOff.approvedBy,
+      });
+
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      broadcast(req.restaurant!.id, orderChangedEvent(order));
+
+      res.status(201).json(order);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid refund data', details: error.errors });
+      }
+      if (error instanceof OrderConflictError) {
+        return res.status(409).json({ error: error.message, ...error.details });
+      }
+      console.error('Server error refunding order:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+}
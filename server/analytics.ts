@@ -0,0 +1,114 @@
+import type { Express } from "express";
+import {
+  analyticsRangeSchema,
+  revenueQuerySchema,
+  topItemsQuerySchema,
+  type AnalyticsRange,
+  type BusinessDateRange,
+  type RevenueComparison,
+} from "@shared/analytics";
+import {
+  addBusinessDays,
+  businessDateFor,
+  businessDayRange,
+  type BusinessDaySettings,
+} from "@shared/businessDay";
+import type { api } from "@shared/api";
+import { storage } from "./storage";
+import { requireAuth, requirePermission } from "./auth";
+import { requireRestaurant } from "./tenancy";
+import type { ApiRes } from "./contract";
+
+// Charts default to the last 30 business days, the revenue card to today.
+const DEFAULT_SERIES_DAYS = 30;
+const DEFAULT_SUMMARY_DAYS = 1;
+
+// Fills in a query's missing dates from the restaurant's current business day.
+function resolveRange(
+  { from, to }: BusinessDateRange,
+  settings: BusinessDaySettings,
+  defaultDays: number,
+): { from: string; to: string } {
+  const end = to ?? businessDateFor(new Date(), settings);
+  return { from: from ?? addBusinessDays(end, 1 - defaultDays), to: end };
+}
+
+function dayCount({ from, to }: { from: string; to: string }) {
+  return Math.round((Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000)) + 1;
+}
+
+function daysBefore({ from, to }: { from: string; to: string }, days: number) {
+  return { from: addBusinessDays(from, -days), to: addBusinessDays(to, -days) };
+}
+
+// The instants a range of business days covers.
+function instants(
+  { from, to }: { from: string; to: string },
+  settings: BusinessDaySettings,
+): AnalyticsRange {
+  return businessDayRange(from, to, settings);
+}
+
+// Aggregates are computed by storage (in SQL for the database backend), so
+// only the summarised rows ever leave the server.
+export function registerAnalyticsRoutes(app: Express) {
+  app.use('/api/analytics', requireAuth, requireRestaurant, requirePermission('revenue:view'));
+
+  app.get('/api/analytics/revenue', async (req, res: ApiRes<typeof api.analytics.revenue>) => {
+    try {
+      const { bucket, ...dates } = revenueQuerySchema.parse(req.query);
+      const restaurant = req.restaurant!;
+      const range = instants(resolveRange(dates, restaurant, DEFAULT_SERIES_DAYS), restaurant);
+      res.json(await storage.getRevenueSeries(restaurant.id, { ...range, bucket }, restaurant));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid analytics query', details: error.errors });
+      }
+      console.error('Error fetching revenue analytics:', error);
+      res.status(500).json({ error: 'Failed to fetch revenue analytics' });
+    }
+  });
+
+  app.get('/api/analytics/top-items', async (req, res: ApiRes<typeof api.analytics.topItems>) => {
+    try {
+      const { limit, ...dates } = topItemsQuerySchema.parse(req.query);
+      const restaurant = req.restaurant!;
+      const range = instants(resolveRange(dates, restaurant, DEFAULT_SERIES_DAYS), restaurant);
+      res.json(await storage.getTopItems(restaurant.id, { ...range, limit }));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid analytics query', details: error.errors });
+      }
+      console.error('Error fetching top items:', error);
+      res.status(500).json({ error: 'Failed to fetch top items' });
+    }
+  });
+
+  // The revenue card's figures for a range, with the previous period and the
+  // same range a week earlier to compare against.
+  app.get('/api/analytics/summary', async (req, res: ApiRes<typeof api.analytics.summary>) => {
+    try {
+      const restaurant = req.restaurant!;
+      const dates = resolveRange(
+        analyticsRangeSchema.parse(req.query),
+        restaurant,
+        DEFAULT_SUMMARY_DAYS,
+      );
+      const length = dayCount(dates);
+      const [current, previousPeriod, previousWeek] = await Promise.all([
+        storage.getRevenueSummary(restaurant.id, instants(dates, restaurant)),
+        storage.getRevenueSummary(restaurant.id, instants(daysBefore(dates, length), restaurant)),
+        storage.getRevenueSummary(restaurant.id, instants(daysBefore(dates, 7), restaurant)),
+      ]);
+      const comparison: RevenueComparison = { current, previousPeriod, previousWeek };
+
+      res.json(comparison);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid analytics query', details: error.errors });
+      }
+      console.error('Error fetching revenue summary:', error);
+      res.status(500).json({ error: 'Failed to fetch revenue summary' });
+    }
+  });
+}
@@ -0,0 +1,270 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, Request, Response, NextFunction } from "express";
+import type { IncomingMessage } from "http";
+import session from "express-session";
+import { createHmac, scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import {
+  loginSchema,
+  type ManagerApproval,
+  type PublicUser,
+  type User as SelectUser,
+} from "@shared/schema";
+import { STATUS_PERMISSIONS, hasPermission, type Permission } from "@shared/permissions";
+import { isOrderStatus } from "@shared/orderStatus";
+import type { api } from "@shared/api";
+import { storage, DEFAULT_RESTAURANT } from "./storage";
+import { log } from "./vite";
+import { allowedOrigin } from "./cors";
+import type { ApiRes } from "./contract";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    // Where passport keeps the signed-in user's id.
+    passport?: { user?: string };
+  }
+}
+
+// Who is opening a realtime connection (WebSocket or event stream), or
+// undefined to turn it away.
+export type RealtimeAuthenticator = (req: IncomingMessage) => Promise<SelectUser | undefined>;
+
+// Realtime tokens only need to last until the socket is open.
+const REALTIME_TOKEN_TTL_MS = 60 * 1000;
+
+const scryptAsync = promisify(scrypt);
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+export function toPublicUser(user: SelectUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  next();
+}
+
+// Must run after requireAuth.
+export function requirePermission(permission: Permission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasPermission(req.user!.role, permission)) {
+      return res.status(403).json({ error: 'You do not have permission to do this' });
+    }
+    next();
+  };
+}
+
+// For status changes the permission depends on the status being moved into.
+// Unknown statuses pass through so the route can answer with a 400.
+export function requireStatusPermission(req: Request, res: Response, next: NextFunction) {
+  const { status } = req.body;
+  if (isOrderStatus(status) && !hasPermission(req.user!.role, STATUS_PERMISSIONS[status])) {
+    return res.status(403).json({ error: 'You do not have permission to do this' });
+  }
+  next();
+}
+
+// Lines without a menuItemId take their name, price and tax rate from the
+// request, so only staff who may set prices can send them. Malformed items
+// pass through so the route can answer with a 400.
+export function requireOpenPricePermission(req: Request, res: Response, next: NextFunction) {
+  const { items } = req.body;
+  const openPrice =
+    Array.isArray(items) && items.some((line) => typeof line === 'object' && line && !line.menuItemId);
+  if (openPrice && !hasPermission(req.user!.role, 'orders:price')) {
+    return res.status(403).json({ error: 'You do not have permission to ring up items that are not on the menu' });
+  }
+  next();
+}
+
+// Checks a manager's credentials entered to sign off someone else's action.
+// Returns the approver only if the password matches and they can approve
+// adjustments in the same restaurant.
+export async function verifyManagerApproval(
+  restaurantId: string,
+  { username, password }: ManagerApproval,
+): Promise<SelectUser | undefined> {
+  const approver = await storage.getUserByUsername(username);
+  if (!approver || !(await comparePasswords(password, approver.password))) return undefined;
+  if (approver.restaurantId !== restaurantId) return undefined;
+  return hasPermission(approver.role, "adjustments:approve") ? approver : undefined;
+}
+
+function sessionSecret() {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+  // Sessions won't survive a restart, which is fine for local development.
+  return randomBytes(32).toString("hex");
+}
+
+// Creates the owner account named by OWNER_USERNAME / OWNER_PASSWORD if it
+// doesn't exist yet, so a fresh install always has someone who can log in.
+async function ensureOwnerAccount() {
+  let username = process.env.OWNER_USERNAME;
+  let password = process.env.OWNER_PASSWORD;
+
+  if (!username || !password) {
+    if (process.env.NODE_ENV === "production") return;
+    username = "owner";
+    password = "changeme";
+  }
+
+  if (await storage.getUserByUsername(username)) return;
+
+  const [restaurant] = await storage.getRestaurants();
+  const restaurantId = restaurant?.id ?? (await storage.createRestaurant({ name: DEFAULT_RESTAURANT.name })).id;
+
+  await storage.createUser(restaurantId, {
+    username,
+    password: await hashPassword(password),
+    displayName: "Owner",
+    role: "owner",
+  });
+  log(`created owner account "${username}"`, "auth");
+}
+
+function signRealtimeToken(secret: string, payload: string) {
+  return createHmac("sha256", secret).update(payload).digest("hex");
+}
+
+// A short-lived "<user id>.<expiry>.<signature>" token, for clients on another
+// origin whose realtime connection doesn't carry the session cookie.
+function createRealtimeToken(secret: string, userId: string) {
+  const payload = `${userId}.${Date.now() + REALTIME_TOKEN_TTL_MS}`;
+  return `${payload}.${signRealtimeToken(secret, payload)}`;
+}
+
+function verifyRealtimeToken(secret: string, token: string): string | undefined {
+  const [userId, expiresAt, signature] = token.split(".");
+  if (!userId || !expiresAt || !signature) return undefined;
+  const expected = Buffer.from(signRealtimeToken(secret, `${userId}.${expiresAt}`));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) return undefined;
+  return Number(expiresAt) > Date.now() ? userId : undefined;
+}
+
+// Returns how realtime connections are authenticated; WebSocket upgrades
+// never pass through the Express middleware.
+export async function setupAuth(app: Express): Promise<RealtimeAuthenticator> {
+  const secret = sessionSecret();
+  const sessionSettings: session.SessionOptions = {
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    // A client on another origin only gets the cookie back if it may be sent
+    // cross-site, which browsers allow for secure cookies only; so CORS_ORIGIN
+    // needs the server behind HTTPS.
+    cookie: allowedOrigin
+      ? { httpOnly: true, sameSite: "none", secure: true }
+      : { httpOnly: true, sameSite: "lax", secure: process.env.NODE_ENV === "production" },
+  };
+
+  const sessionMiddleware = session(sessionSettings);
+
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  await ensureOwnerAccount();
+
+  app.post("/api/login", (req, res: ApiRes<typeof api.auth.login>, next) => {
+    const parsed = loginSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid login data', details: parsed.error.errors });
+    }
+
+    passport.authenticate("local", (err: unknown, user: SelectUser | false) => {
+      if (err) return next(err);
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr);
+        res.status(200).json(toPublicUser(user));
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res: ApiRes<typeof api.auth.logout>, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr);
+        res.clearCookie("connect.sid");
+        res.sendStatus(200);
+      });
+    });
+  });
+
+  app.get("/api/me", requireAuth, (req, res: ApiRes<typeof api.auth.me>) => {
+    res.json(toPublicUser(req.user!));
+  });
+
+  app.get("/api/realtime/token", requireAuth, (req, res: ApiRes<typeof api.realtime.token>) => {
+    res.json({ token: createRealtimeToken(secret, req.user!.id) });
+  });
+
+  // The session cookie when the browser sends it, otherwise ?token=.
+  return async (req) => {
+    const token = new URL(req.url ?? "/", "http://localhost").searchParams.get("token");
+    let userId = token ? verifyRealtimeToken(secret, token) : undefined;
+    if (!userId && !token) {
+      const sessionReq = req as Request;
+      await new Promise<void>((resolve, reject) =>
+        sessionMiddleware(sessionReq, {} as Response, (err?: unknown) => (err ? reject(err) : resolve())),
+      );
+      userId = sessionReq.session?.passport?.user;
+    }
+    return userId ? storage.getUser(userId) : undefined;
+  };
+}
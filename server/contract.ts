@@ -0,0 +1,11 @@
+import type { Response } from "express";
+import type { ApiResponse } from "@shared/api";
+
+// What every non-2xx answer carries: the message the client shows, plus
+// whatever details go with it.
+export type ErrorBody = { error: string } & Record<string, unknown>;
+
+// The response of a handler for an endpoint in @shared/api. res.json only
+// takes what the endpoint's response schema promises, or an error, so a
+// route that drifts from the contract stops compiling.
+export type ApiRes<E> = Response<ApiResponse<E> | ErrorBody>;
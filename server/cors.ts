@@ -0,0 +1,43 @@
+import type { Request, Response, NextFunction } from "express";
+
+// The one other origin allowed to call the API with the session cookie, for a
+// client built with VITE_API_BASE_URL pointing here, e.g.
+// "https://till.example.com". Unset means the API is same-origin only.
+export const allowedOrigin = process.env.CORS_ORIGIN?.replace(/\/$/, "") || undefined;
+
+// Answers preflights and marks responses readable by the allowed origin.
+// Requests from anywhere else get no CORS headers, so browsers refuse them.
+export function allowConfiguredOrigin(req: Request, res: Response, next: NextFunction) {
+  if (!allowedOrigin) return next();
+  res.vary("Origin");
+  if (req.get("origin") !== allowedOrigin) return next();
+
+  res.setHeader("Access-Control-Allow-Origin", allowedOrigin);
+  res.setHeader("Access-Control-Allow-Credentials", "true");
+  if (req.method === "OPTIONS") {
+    res.setHeader("Access-Control-Allow-Methods", "GET, POST, PATCH, PUT, DELETE");
+    res.setHeader("Access-Control-Allow-Headers", "Content-Type, X-Restaurant-Id");
+    res.setHeader("Access-Control-Max-Age", "600");
+    return res.sendStatus(204);
+  }
+  next();
+}
+
+const SAFE_METHODS = new Set(["GET", "HEAD", "OPTIONS"]);
+
+// CORS only stops another site reading the answers, not sending requests: a
+// plain form or a no-cors fetch still goes out with the session cookie. So
+// every write must come from this server's own origin or the allowed one, and
+// a body must be JSON, which no form can send.
+export function refuseCrossSiteWrites(req: Request, res: Response, next: NextFunction) {
+  if (SAFE_METHODS.has(req.method)) return next();
+
+  const origin = req.get("origin");
+  if (origin && origin !== `${req.protocol}://${req.get("host")}` && origin !== allowedOrigin) {
+    return res.status(403).json({ error: "Requests from this origin are not allowed" });
+  }
+  if (req.is("application/json") === false) {
+    return res.status(415).json({ error: "Send the request body as JSON" });
+  }
+  next();
+}
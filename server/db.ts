@@ -1,15 +1,18 @@
 import { Pool, neonConfig } from '@neondatabase/serverless';
 import { drizzle } from 'drizzle-orm/neon-serverless';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
 import ws from "ws";
 import * as schema from "@shared/schema";
 
 neonConfig.webSocketConstructor = ws;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
+// The database is optional: without DATABASE_URL the server falls back to
+// in-memory storage (see ./storage), so these stay null instead of throwing.
+export const pool = process.env.DATABASE_URL
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+export const db = pool ? drizzle({ client: pool, schema }) : null;
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle({ client: pool, schema });
+// What DatabaseStorage runs on: a drizzle database over this schema through
+// any Postgres driver, Neon here and an in-process Postgres in the tests.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
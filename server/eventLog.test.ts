@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { ServerEvent } from "@shared/events";
+import { EventLog } from "./eventLog";
+
+const menuChanged: ServerEvent = { type: "MENU_CHANGED" };
+
+function logWith(capacity: number, count: number) {
+  const log = new EventLog(capacity);
+  for (let i = 0; i < count; i++) log.append(menuChanged);
+  return log;
+}
+
+const seqs = (entries: { seq: number }[] | null) => entries?.map((entry) => entry.seq) ?? null;
+
+describe("EventLog", () => {
+  it("numbers events from 1 in the order they are appended", () => {
+    const log = new EventLog(10);
+
+    expect(log.latestSeq).toBe(0);
+    expect(log.append(menuChanged)).toEqual({ seq: 1, event: menuChanged });
+    expect(log.append(menuChanged).seq).toBe(2);
+    expect(log.latestSeq).toBe(2);
+  });
+
+  it("gives a fresh epoch to every log", () => {
+    expect(new EventLog(10).epoch).not.toBe(new EventLog(10).epoch);
+  });
+
+  describe("after", () => {
+    it("has nothing to replay for a screen that is up to date", () => {
+      expect(new EventLog(10).after(0)).toEqual([]);
+      expect(logWith(10, 3).after(3)).toEqual([]);
+    });
+
+    it("replays everything after the last event seen", () => {
+      const log = logWith(10, 5);
+
+      expect(seqs(log.after(0))).toEqual([1, 2, 3, 4, 5]);
+      expect(seqs(log.after(3))).toEqual([4, 5]);
+    });
+
+    it("refuses a position it never gave out", () => {
+      expect(logWith(10, 3).after(4)).toBeNull();
+      expect(new EventLog(10).after(1)).toBeNull();
+    });
+
+    it("refuses once the events after the position have been dropped", () => {
+      const log = logWith(3, 5);
+
+      // Only 3, 4 and 5 are left.
+      expect(log.after(0)).toBeNull();
+      expect(log.after(1)).toBeNull();
+      expect(seqs(log.after(2))).toEqual([3, 4, 5]);
+      expect(seqs(log.after(4))).toEqual([5]);
+    });
+
+    it("keeps numbering past what it holds", () => {
+      const log = logWith(2, 1000);
+
+      expect(log.latestSeq).toBe(1000);
+      expect(seqs(log.after(998))).toEqual([999, 1000]);
+      expect(log.after(997)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { randomUUID } from "crypto";
+import type { ServerEvent } from "@shared/events";
+
+export interface LoggedEvent {
+  seq: number;
+  event: ServerEvent;
+}
+
+// One restaurant's most recent broadcasts, numbered in the order they went
+// out, so a screen that lost its connection can be sent what it missed. Only
+// the last `capacity` events are held; anyone further behind has to refetch.
+// Each restaurant has a log of its own, so a busy one can't push a quiet
+// one's events out.
+export class EventLog {
+  // Numbering restarts with the process and differs between restaurants, so
+  // resuming is only possible against the same epoch.
+  readonly epoch = randomUUID();
+  private seq = 0;
+  private entries: LoggedEvent[] = [];
+
+  constructor(private capacity: number) {}
+
+  get latestSeq(): number {
+    return this.seq;
+  }
+
+  append(event: ServerEvent): LoggedEvent {
+    const entry = { seq: ++this.seq, event };
+    this.entries.push(entry);
+    if (this.entries.length > this.capacity) this.entries.shift();
+    return entry;
+  }
+
+  // Everything after `since`, or null when some of it has already been dropped
+  // (or `since` is from a numbering this log never gave out).
+  after(since: number): LoggedEvent[] | null {
+    if (since > this.seq) return null;
+    const oldest = this.entries.length > 0 ? this.entries[0].seq : this.seq + 1;
+    if (since + 1 < oldest) return null;
+    return this.entries.filter((entry) => entry.seq > since);
+  }
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { allowConfiguredOrigin, refuseCrossSiteWrites } from "./cors";
 
 const app = express();
 
@@ -14,7 +15,8 @@ app.use(express.json({
     req.rawBody = buf;
   }
 }));
-app.use(express.urlencoded({ extended: false }));
+app.use(allowConfiguredOrigin);
+app.use(refuseCrossSiteWrites);
 
 app.use((req, res, next) => {
   const start = Date.now();
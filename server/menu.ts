@@ -0,0 +1,222 @@
+import type { Express } from "express";
+import {
+  insertMenuCategorySchema,
+  insertMenuItemSchema,
+  menuItemAvailabilitySchema,
+  replaceModifierGroupsSchema,
+  updateMenuCategorySchema,
+  updateMenuItemSchema,
+} from "@shared/schema";
+import type { api } from "@shared/api";
+import { storage } from "./storage";
+import { requireAuth, requirePermission } from "./auth";
+import { requireRestaurant } from "./tenancy";
+import type { Broadcast } from "./realtime";
+import type { ApiRes } from "./contract";
+
+export function registerMenuRoutes(app: Express, broadcast: Broadcast) {
+  app.use('/api/menu', requireAuth, requireRestaurant);
+
+  // The whole menu in one request: the dashboard and the editor both need
+  // categories and items together.
+  app.get('/api/menu', async (req, res: ApiRes<typeof api.menu.get>) => {
+    try {
+      const [categories, items, modifierGroups] = await Promise.all([
+        storage.getMenuCategories(req.restaurant!.id),
+        storage.getMenuItems(req.restaurant!.id),
+        storage.getModifierGroups(req.restaurant!.id),
+      ]);
+      res.json({ categories, items, modifierGroups });
+    } catch (error) {
+      console.error('Error fetching menu:', error);
+      res.status(500).json({ error: 'Failed to fetch menu' });
+    }
+  });
+
+  app.post('/api/menu/categories', requirePermission('menu:manage'), async (req, res: ApiRes<typeof api.menu.createCategory>) => {
+    try {
+      const validatedData = insertMenuCategorySchema.parse(req.body);
+      const category = await storage.createMenuCategory(req.restaurant!.id, validatedData);
+      broadcast(req.restaurant!.id, { type: 'MENU_CHANGED' });
+      res.status(201).json(category);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid category data', details: error.errors });
+      }
+      console.error('Server error creating menu category:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.patch('/api/menu/categories/:id', requirePermission('menu:manage'), async (req, res: ApiRes<typeof api.menu.updateCategory>) => {
+    try {
+      const validatedData = updateMenuCategorySchema.parse(req.body);
+      const category = await storage.updateMenuCategory(
+        req.restaurant!.id,
+        req.params.id,
+        validatedData,
+      );
+
+      if (!category) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+
+      broadcast(req.restaurant!.id, { type: 'MENU_CHANGED' });
+      res.json(category);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid category data', details: error.errors });
+      }
+      console.error('Server error updating menu category:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/menu/categories/:id', requirePermission('menu:manage'), async (req, res: ApiRes<typeof api.menu.deleteCategory>) => {
+    try {
+      const items = await storage.getMenuItems(req.restaurant!.id);
+
+      if (items.some((item) => item.categoryId === req.params.id)) {
+        return res.status(409).json({ error: 'Move or delete the items in this category first' });
+      }
+
+      const deleted = await storage.deleteMenuCategory(req.restaurant!.id, req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'Category not found' });
+      }
+
+      broadcast(req.restaurant!.id, { type: 'MENU_CHANGED' });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Server error deleting menu category:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/menu/items', requirePermission('menu:manage'), async (req, res: ApiRes<typeof api.menu.createItem>) => {
+    try {
+      const validatedData = insertMenuItemSchema.parse(req.body);
+
+      if (!(await categoryExists(req.restaurant!.id, validatedData.categoryId))) {
+        return res.status(400).json({ error: 'Category not found' });
+      }
+
+      const item = await storage.createMenuItem(req.restaurant!.id, validatedData);
+      broadcast(req.restaurant!.id, { type: 'MENU_CHANGED' });
+      res.status(201).json(item);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid menu item data', details: error.errors });
+      }
+      console.error('Server error creating menu item:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.patch('/api/menu/items/:id', requirePermission('menu:manage'), async (req, res: ApiRes<typeof api.menu.updateItem>) => {
+    try {
+      const validatedData = updateMenuItemSchema.parse(req.body);
+
+      if (
+        validatedData.categoryId &&
+        !(await categoryExists(req.restaurant!.id, validatedData.categoryId))
+      ) {
+        return res.status(400).json({ error: 'Category not found' });
+      }
+
+      const existing = await storage.getMenuItem(req.restaurant!.id, req.params.id);
+
+      if (!existing) {
+        return res.status(404).json({ error: 'Menu item not found' });
+      }
+
+      const item = await storage.updateMenuItem(req.restaurant!.id, req.params.id, validatedData);
+
+      if (!item) {
+        return res.status(404).json({ error: 'Menu item not found' });
+      }
+
+      broadcast(req.restaurant!.id, { type: 'MENU_CHANGED' });
+      if (item.isAvailable !== existing.isAvailable) {
+        broadcast(req.restaurant!.id, { type: 'MENU_ITEM_AVAILABILITY', item });
+      }
+
+      res.json(item);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid menu item data', details: error.errors });
+      }
+      console.error('Server error updating menu item:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Marking an item sold out ("86") is a kitchen task, so it has its own
+  // route and permission instead of going through the full item editor.
+  app.patch('/api/menu/items/:id/availability', requirePermission('menu:availability'), async (req, res: ApiRes<typeof api.menu.setAvailability>) => {
+    try {
+      const { isAvailable } = menuItemAvailabilitySchema.parse(req.body);
+      const item = await storage.updateMenuItem(req.restaurant!.id, req.params.id, { isAvailable });
+
+      if (!item) {
+        return res.status(404).json({ error: 'Menu item not found' });
+      }
+
+      broadcast(req.restaurant!.id, { type: 'MENU_ITEM_AVAILABILITY', item });
+
+      res.json(item);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid availability data', details: error.errors });
+      }
+      console.error('Server error updating availability:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.put('/api/menu/items/:id/modifiers', requirePermission('menu:manage'), async (req, res: ApiRes<typeof api.menu.replaceModifiers>) => {
+    try {
+      const { groups } = replaceModifierGroupsSchema.parse(req.body);
+
+      if (!(await storage.getMenuItem(req.restaurant!.id, req.params.id))) {
+        return res.status(404).json({ error: 'Menu item not found' });
+      }
+
+      const modifierGroups = await storage.replaceModifierGroups(
+        req.restaurant!.id,
+        req.params.id,
+        groups,
+      );
+      broadcast(req.restaurant!.id, { type: 'MENU_CHANGED' });
+      res.json(modifierGroups);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid modifier data', details: error.errors });
+      }
+      console.error('Server error saving modifiers:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/menu/items/:id', requirePermission('menu:manage'), async (req, res: ApiRes<typeof api.menu.deleteItem>) => {
+    try {
+      const deleted = await storage.deleteMenuItem(req.restaurant!.id, req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'Menu item not found' });
+      }
+
+      broadcast(req.restaurant!.id, { type: 'MENU_CHANGED' });
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Server error deleting menu item:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+}
+
+async function categoryExists(restaurantId: string, categoryId: string) {
+  const categories = await storage.getMenuCategories(restaurantId);
+  return categories.some((category) => category.id === categoryId);
+}
@@ -0,0 +1,226 @@
+import type {
+  CreateOrder,
+  InsertOrderItem,
+  OrderLineInput,
+  OrderItemModifier,
+  Restaurant,
+} from "@shared/schema";
+import { fromCents, toCents } from "@shared/money";
+import { calculateOrderTotals, DEFAULT_TAX_RATE, formatOrderTotals } from "@shared/pricing";
+import { evaluatePromotions, isPromotionLive } from "@shared/promotions";
+import { paymentStatusFor } from "@shared/payments";
+import { storage } from "./storage";
+
+export type OrderLineProblemCode =
+  | "MENU_ITEM_NOT_FOUND"
+  | "ITEM_UNAVAILABLE"
+  | "MODIFIER_SELECTION"
+  | "UNKNOWN_MODIFIER";
+
+export interface OrderLineProblem {
+  line: number;
+  code: OrderLineProblemCode;
+  message: string;
+  menuItemId?: string;
+}
+
+// Thrown when submitted lines don't fit the menu. Routes answer it with a 400
+// listing every problem, indexed by the line it came from.
+export class OrderValidationError extends Error {
+  constructor(public problems: OrderLineProblem[]) {
+    super("Invalid order items");
+    this.name = "OrderValidationError";
+  }
+}
+
+// Thrown when the total a client showed the customer differs from the one the
+// server computed, so nobody is charged an amount they never saw.
+export class OrderTotalMismatchError extends Error {
+  constructor(
+    public submitted: string,
+    public computed: string,
+  ) {
+    super("Order total does not match");
+    this.name = "OrderTotalMismatchError";
+  }
+}
+
+// Thrown when an order names a promo code that doesn't exist or isn't live.
+export class PromoCodeError extends Error {
+  constructor(public code: string) {
+    super("Promo code is not valid right now");
+    this.name = "PromoCodeError";
+  }
+}
+
+// Turns submitted lines into line items to store. Lines that reference the
+// menu take their name, price and modifiers from it; the client only chooses
+// which modifier options it wants.
+export async function resolveOrderLines(
+  restaurantId: string,
+  lines: OrderLineInput[],
+): Promise<InsertOrderItem[]> {
+  const [menuItems, modifierGroups] = await Promise.all([
+    storage.getMenuItems(restaurantId),
+    storage.getModifierGroups(restaurantId),
+  ]);
+  const problems: OrderLineProblem[] = [];
+
+  const resolved = lines.map((line, index): InsertOrderItem => {
+    const { menuItemId, quantity, notes } = line;
+
+    if (!menuItemId) {
+      return {
+        name: line.name!,
+        unitPrice: line.unitPrice!,
+        taxRate: line.taxRate ?? DEFAULT_TAX_RATE,
+        quantity,
+        notes,
+        modifiers: [],
+      };
+    }
+
+    const menuItem = menuItems.find((item) => item.id === menuItemId);
+    if (!menuItem) {
+      problems.push({
+        line: index,
+        code: "MENU_ITEM_NOT_FOUND",
+        message: "Menu item not found",
+        menuItemId,
+      });
+      return { name: "", unitPrice: "0", taxRate: "0", quantity, modifiers: [] };
+    }
+
+    if (!menuItem.isAvailable) {
+      problems.push({
+        line: index,
+        code: "ITEM_UNAVAILABLE",
+        message: `${menuItem.name} is sold out`,
+        menuItemId,
+      });
+    }
+
+    const chosen = new Set(line.modifierOptionIds ?? []);
+    const groups = modifierGroups.filter((group) => group.menuItemId === menuItemId);
+    const modifiers: OrderItemModifier[] = [];
+
+    for (const group of groups) {
+      const picked = group.options.filter((option) => chosen.has(option.id));
+      picked.forEach((option) => chosen.delete(option.id));
+
+      if (picked.length < group.minSelections || picked.length > group.maxSelections) {
+        problems.push({
+          line: index,
+          code: "MODIFIER_SELECTION",
+          menuItemId,
+          message:
+            group.minSelections === group.maxSelections
+              ? `${group.name}: choose ${group.minSelections}`
+              : `${group.name}: choose between ${group.minSelections} and ${group.maxSelections}`,
+        });
+      }
+
+      modifiers.push(
+        ...picked.map((option) => ({
+          groupName: group.name,
+          optionName: option.name,
+          priceDelta: option.priceDelta,
+        })),
+      );
+    }
+
+    if (chosen.size > 0) {
+      problems.push({
+        line: index,
+        code: "UNKNOWN_MODIFIER",
+        message: `Unknown modifier options for ${menuItem.name}`,
+        menuItemId,
+      });
+    }
+
+    const unitCents =
+      toCents(menuItem.price) +
+      modifiers.reduce((sum, modifier) => sum + toCents(modifier.priceDelta), 0);
+
+    return {
+      menuItemId,
+      name: menuItem.name,
+      unitPrice: fromCents(Math.max(unitCents, 0)),
+      taxRate: menuItem.taxRate,
+      quantity,
+      notes,
+      modifiers,
+    };
+  });
+
+  if (problems.length > 0) {
+    throw new OrderValidationError(problems);
+  }
+
+  return resolved;
+}
+
+// The promotions an order gets: every live automatic promotion, plus the
+// coded one it names. Codes are matched case-insensitively.
+async function promotionsFor(
+  restaurant: Restaurant,
+  promoCode: string | undefined,
+  now: Date,
+) {
+  const live = (await storage.getPromotions(restaurant.id)).filter((promotion) =>
+    isPromotionLive(promotion, now, restaurant.timezone),
+  );
+  const selected = live.filter((promotion) => !promotion.code);
+
+  if (promoCode) {
+    const coded = live.find((promotion) => promotion.code === promoCode.toUpperCase());
+    if (!coded) throw new PromoCodeError(promoCode);
+    selected.push(coded);
+  }
+  return selected;
+}
+
+// Every amount on an order is derived from its line items, the restaurant's
+// pricing settings and its promotions, never trusted from the caller.
+export async function placeOrder(
+  restaurant: Restaurant,
+  { items, totalPrice: submittedTotal, promoCode, ...order }: CreateOrder,
+) {
+  const [lineItems, promotions] = await Promise.all([
+    resolveOrderLines(restaurant.id, items),
+    promotionsFor(restaurant, promoCode, new Date()),
+  ]);
+  const discounts = evaluatePromotions(promotions, lineItems);
+  const totals = calculateOrderTotals(
+    lineItems.map((item, index) => ({
+      ...item,
+      discountCents: discounts.lineDiscountCents[index],
+    })),
+    {
+      orderDiscountCents: discounts.orderDiscountCents,
+      serviceChargeRate: restaurant.serviceChargeRate,
+      roundingIncrement: restaurant.roundingIncrement,
+    },
+  );
+  const amounts = formatOrderTotals(totals);
+
+  if (submittedTotal !== undefined && toCents(submittedTotal) !== totals.totalCents) {
+    throw new OrderTotalMismatchError(fromCents(toCents(submittedTotal)), amounts.totalPrice);
+  }
+
+  return storage.createOrder(
+    restaurant.id,
+    {
+      ...order,
+      ...amounts,
+      status: "pending",
+      appliedPromotions: discounts.applied,
+      paymentStatus: paymentStatusFor(totals.totalCents, 0),
+    },
+    lineItems.map((item, index) => ({
+      ...item,
+      discountAmount: fromCents(totals.lines[index].discountCents),
+      taxAmount: fromCents(totals.lines[index].taxCents),
+    })),
+  );
+}
@@ -0,0 +1,106 @@
+import type { Express } from "express";
+import {
+  insertPromotionSchema,
+  updatePromotionSchema,
+  type InsertPromotion,
+} from "@shared/schema";
+import type { api } from "@shared/api";
+import { storage } from "./storage";
+import { requireAuth, requirePermission } from "./auth";
+import { requireRestaurant } from "./tenancy";
+import type { ApiRes } from "./contract";
+
+// Problems with a promotion that only show up against stored data: its menu
+// item must be on this restaurant's menu and its code must be unused.
+async function promotionConflict(
+  restaurantId: string,
+  promotion: InsertPromotion,
+  id?: string,
+): Promise<{ status: number; error: string } | undefined> {
+  if (promotion.menuItemId && !(await storage.getMenuItem(restaurantId, promotion.menuItemId))) {
+    return { status: 400, error: 'Menu item not found' };
+  }
+  if (promotion.code) {
+    const promotions = await storage.getPromotions(restaurantId);
+    if (promotions.some((other) => other.code === promotion.code && other.id !== id)) {
+      return { status: 409, error: 'A promotion with this code already exists' };
+    }
+  }
+  return undefined;
+}
+
+export function registerPromotionRoutes(app: Express) {
+  app.use('/api/promotions', requireAuth, requireRestaurant);
+
+  app.get('/api/promotions', async (req, res: ApiRes<typeof api.promotions.list>) => {
+    try {
+      res.json(await storage.getPromotions(req.restaurant!.id));
+    } catch (error) {
+      console.error('Error fetching promotions:', error);
+      res.status(500).json({ error: 'Failed to fetch promotions' });
+    }
+  });
+
+  app.post('/api/promotions', requirePermission('promotions:manage'), async (req, res: ApiRes<typeof api.promotions.create>) => {
+    try {
+      const validatedData = insertPromotionSchema.parse(req.body);
+      const conflict = await promotionConflict(req.restaurant!.id, validatedData);
+
+      if (conflict) {
+        return res.status(conflict.status).json({ error: conflict.error });
+      }
+
+      const promotion = await storage.createPromotion(req.restaurant!.id, validatedData);
+      res.status(201).json(promotion);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid promotion data', details: error.errors });
+      }
+      console.error('Server error creating promotion:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.patch('/api/promotions/:id', requirePermission('promotions:manage'), async (req, res: ApiRes<typeof api.promotions.update>) => {
+    try {
+      const changes = updatePromotionSchema.parse(req.body);
+      const existing = await storage.getPromotion(req.restaurant!.id, req.params.id);
+
+      if (!existing) {
+        return res.status(404).json({ error: 'Promotion not found' });
+      }
+
+      // The rules span several fields, so check the promotion as it will be.
+      const merged = insertPromotionSchema.parse({ ...existing, ...changes });
+      const conflict = await promotionConflict(req.restaurant!.id, merged, existing.id);
+
+      if (conflict) {
+        return res.status(conflict.status).json({ error: conflict.error });
+      }
+
+      const promotion = await storage.updatePromotion(req.restaurant!.id, req.params.id, changes);
+      res.json(promotion);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid promotion data', details: error.errors });
+      }
+      console.error('Server error updating promotion:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.delete('/api/promotions/:id', requirePermission('promotions:manage'), async (req, res: ApiRes<typeof api.promotions.delete>) => {
+    try {
+      const deleted = await storage.deletePromotion(req.restaurant!.id, req.params.id);
+
+      if (!deleted) {
+        return res.status(404).json({ error: 'Promotion not found' });
+      }
+
+      res.sendStatus(204);
+    } catch (error) {
+      console.error('Server error deleting promotion:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+}
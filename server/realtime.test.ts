@@ -0,0 +1,203 @@
+import express from "express";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import WebSocket from "ws";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { ServerEvent, ServerMessage } from "@shared/events";
+import type { Role } from "@shared/permissions";
+import type { User } from "@shared/schema";
+import { setupRealtime, type Broadcast } from "./realtime";
+
+// Screens say who they are with ?as=<restaurant>:<role> instead of a session.
+function userFor(as: string | null): User | undefined {
+  if (!as) return undefined;
+  const [restaurantId, role] = as.split(":") as [string, Role];
+  return {
+    id: as,
+    restaurantId,
+    username: as,
+    password: "",
+    displayName: as,
+    role,
+    createdAt: new Date(),
+  };
+}
+
+const menuChanged: ServerEvent = { type: "MENU_CHANGED" };
+
+const dayClosed: ServerEvent = {
+  type: "BUSINESS_DAY_CLOSED",
+  businessDay: {
+    id: "day-1",
+    restaurantId: "chai",
+    businessDate: "2024-06-01",
+    openedAt: new Date(),
+    closedAt: new Date(),
+    closedBy: "Meera",
+  },
+};
+
+interface Screen {
+  messages: ServerMessage[];
+  welcome: () => Extract<ServerMessage, { kind: "welcome" }>;
+  // The seq of every event received, in order.
+  seqs: () => number[];
+}
+
+describe("realtime", () => {
+  let server: Server;
+  let broadcast: Broadcast;
+  let sockets: WebSocket[];
+
+  // Every connection and disconnection is logged, some of them after the
+  // last test has finished.
+  beforeAll(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  beforeEach(async () => {
+    const app = express();
+    server = createServer(app);
+    broadcast = setupRealtime(app, server, async (req) =>
+      userFor(new URL(req.url ?? "/", "http://localhost").searchParams.get("as")),
+    );
+    sockets = [];
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  });
+
+  afterEach(async () => {
+    sockets.forEach((ws) => ws.terminate());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  async function connect(as: string, params: Record<string, string> = {}): Promise<Screen> {
+    const { port } = server.address() as AddressInfo;
+    const query = new URLSearchParams({ as, ...params });
+    const ws = new WebSocket(`ws://localhost:${port}/ws?${query}`);
+    sockets.push(ws);
+
+    const messages: ServerMessage[] = [];
+    ws.on("message", (data) => messages.push(JSON.parse(String(data))));
+    await vi.waitFor(() => expect(messages[0]?.kind).toBe("welcome"));
+
+    return {
+      messages,
+      welcome: () => messages[0] as Extract<ServerMessage, { kind: "welcome" }>,
+      seqs: () => messages.flatMap((message) => (message.kind === "event" ? [message.seq] : [])),
+    };
+  }
+
+  // Waits for the screen to have received this many events.
+  const receive = (screen: Screen, count: number) =>
+    vi.waitFor(() => expect(screen.seqs()).toHaveLength(count));
+
+  const send = (restaurantId: string, event: ServerEvent, times = 1) => {
+    for (let i = 0; i < times; i++) broadcast(restaurantId, event);
+  };
+
+  it("welcomes a screen at its restaurant's latest position", async () => {
+    send("chai", menuChanged, 2);
+    send("dosa", menuChanged, 5);
+
+    const screen = await connect("chai:owner");
+
+    expect(screen.welcome()).toEqual({
+      kind: "welcome",
+      epoch: expect.any(String),
+      seq: 2,
+      resync: false,
+    });
+    expect(screen.messages).toHaveLength(1);
+  });
+
+  it("sends each screen its own restaurant's events that its role hears", async () => {
+    const owner = await connect("chai:owner");
+    const kitchen = await connect("chai:kitchen");
+    const elsewhere = await connect("dosa:owner");
+
+    send("chai", dayClosed);
+    send("chai", menuChanged);
+    send("dosa", menuChanged);
+
+    await receive(owner, 2);
+    await receive(kitchen, 1);
+    await receive(elsewhere, 1);
+    expect(owner.seqs()).toEqual([1, 2]);
+    // The kitchen doesn't hear about closing the day, so its seqs have a gap.
+    expect(kitchen.seqs()).toEqual([2]);
+    expect(elsewhere.seqs()).toEqual([1]);
+  });
+
+  describe("replay on join", () => {
+    it("sends what a screen missed, after the welcome", async () => {
+      const { epoch } = (await connect("chai:owner")).welcome();
+      send("chai", menuChanged, 3);
+
+      const back = await connect("chai:owner", { since: "1", epoch });
+      await receive(back, 2);
+
+      expect(back.welcome()).toMatchObject({ epoch, seq: 3, resync: false });
+      expect(back.seqs()).toEqual([2, 3]);
+    });
+
+    it("only replays what the screen's role hears", async () => {
+      const { epoch } = (await connect("chai:kitchen")).welcome();
+      send("chai", dayClosed);
+      send("chai", menuChanged);
+      send("chai", dayClosed);
+
+      const back = await connect("chai:kitchen", { since: "0", epoch });
+      await receive(back, 1);
+
+      expect(back.welcome()).toMatchObject({ seq: 3, resync: false });
+      expect(back.seqs()).toEqual([2]);
+    });
+
+    it("asks for a resync when the epoch doesn't match", async () => {
+      send("chai", menuChanged);
+
+      const screen = await connect("chai:owner", { since: "0", epoch: "from-before-a-restart" });
+
+      expect(screen.welcome()).toMatchObject({ seq: 1, resync: true });
+      expect(screen.messages).toHaveLength(1);
+    });
+
+    it("asks for a resync when the position was never given out", async () => {
+      const { epoch } = (await connect("chai:owner")).welcome();
+
+      expect((await connect("chai:owner", { since: "5", epoch })).welcome().resync).toBe(true);
+      expect((await connect("chai:owner", { since: "-1", epoch })).welcome().resync).toBe(true);
+    });
+
+    it("asks for a resync once the missed events have been dropped", async () => {
+      const { epoch } = (await connect("chai:owner")).welcome();
+      send("chai", menuChanged, 501);
+
+      const screen = await connect("chai:owner", { since: "0", epoch });
+
+      expect(screen.welcome()).toMatchObject({ seq: 501, resync: true });
+      expect(screen.messages).toHaveLength(1);
+    });
+
+    it("doesn't lose a restaurant's events to another's traffic", async () => {
+      const { epoch } = (await connect("chai:owner")).welcome();
+      send("chai", menuChanged);
+      send("dosa", menuChanged, 600);
+
+      const back = await connect("chai:owner", { since: "0", epoch });
+      await receive(back, 1);
+
+      expect(back.welcome()).toMatchObject({ seq: 1, resync: false });
+      expect(back.seqs()).toEqual([1]);
+    });
+
+    it("doesn't resume from another restaurant's position", async () => {
+      const { epoch } = (await connect("dosa:owner")).welcome();
+      send("chai", menuChanged);
+
+      const screen = await connect("chai:owner", { since: "0", epoch });
+
+      expect(screen.welcome().resync).toBe(true);
+    });
+  });
+});
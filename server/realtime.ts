@@ -0,0 +1,211 @@
+import type { Express } from "express";
+import type { IncomingMessage, Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  HEARTBEAT_INTERVAL_MS,
+  serverEventSchema,
+  type ServerEvent,
+  type ServerEventType,
+  type ServerMessage,
+} from "@shared/events";
+import { ROLES, hasPermission, type Permission, type Role } from "@shared/permissions";
+import type { User } from "@shared/schema";
+import type { RealtimeAuthenticator } from "./auth";
+import { EventLog, type LoggedEvent } from "./eventLog";
+
+// How many past events a reconnecting screen can catch up on, per restaurant.
+const EVENT_LOG_CAPACITY = 500;
+
+// Which staff hear about each kind of event. The kitchen follows orders, the
+// menu and the shift its order list is scoped to, but day closing is only
+// news to whoever runs the till.
+const EVENT_AUDIENCE: Record<ServerEventType, Permission> = {
+  ORDER_CREATED: "orders:view",
+  ORDER_UPDATED: "orders:view",
+  ORDER_CANCELLED: "orders:view",
+  MENU_CHANGED: "menu:availability",
+  MENU_ITEM_AVAILABILITY: "menu:availability",
+  SHIFT_OPENED: "orders:view",
+  SHIFT_CLOSED: "orders:view",
+  BUSINESS_DAY_CLOSED: "shifts:manage",
+};
+
+// Sends an event to the restaurant's connected screens.
+export type Broadcast = (restaurantId: string, event: ServerEvent) => void;
+
+// An open screen, over a WebSocket or an event stream.
+type Send = (message: ServerMessage) => void;
+
+// Screens are grouped into one room per restaurant and role.
+function roomKey(restaurantId: string, role: Role) {
+  return `${restaurantId}:${role}`;
+}
+
+function hears(role: Role, event: ServerEvent) {
+  return hasPermission(role, EVENT_AUDIENCE[event.type]);
+}
+
+function requestUrl(req: IncomingMessage) {
+  return new URL(req.url ?? '/', 'http://localhost');
+}
+
+// Serves the same stream of events over /ws and, for venues whose proxies
+// block WebSocket upgrades, GET /api/events (Server-Sent Events). Both are
+// for signed-in staff only; each connection joins its user's room and only
+// hears events for its restaurant that its role has a use for. Returns the
+// broadcast function the routes use.
+export function setupRealtime(
+  app: Express,
+  httpServer: Server,
+  authenticate: RealtimeAuthenticator,
+): Broadcast {
+  const wss = new WebSocketServer({ noServer: true });
+  const rooms = new Map<string, Set<Send>>();
+  const eventLogs = new Map<string, EventLog>();
+  // Sockets that have answered a ping since the last heartbeat.
+  const alive = new Set<WebSocket>();
+
+  const logFor = (restaurantId: string) => {
+    let log = eventLogs.get(restaurantId);
+    if (!log) {
+      log = new EventLog(EVENT_LOG_CAPACITY);
+      eventLogs.set(restaurantId, log);
+    }
+    return log;
+  };
+
+  const authenticateOrLog = (req: IncomingMessage) =>
+    authenticate(req).catch((error: unknown) => {
+      console.error('Error authenticating realtime connection:', error);
+      return undefined;
+    });
+
+  // Adds a connection to its room and catches it up. A reconnecting client
+  // passes the last sequence number it saw; the events it missed are replayed
+  // before anything new, since nothing else can be broadcast while this runs.
+  // Returns the function that takes it out again.
+  const join = (user: User, req: IncomingMessage, send: Send) => {
+    const key = roomKey(user.restaurantId, user.role);
+    if (!rooms.has(key)) rooms.set(key, new Set());
+    rooms.get(key)!.add(send);
+
+    const eventLog = logFor(user.restaurantId);
+    const params = requestUrl(req).searchParams;
+    const since = params.get('since');
+    let missed: LoggedEvent[] | null = [];
+    if (since !== null) {
+      missed =
+        /^\d+$/.test(since) && params.get('epoch') === eventLog.epoch
+          ? eventLog.after(Number(since))
+          : null;
+    }
+
+    send({
+      kind: 'welcome',
+      epoch: eventLog.epoch,
+      seq: eventLog.latestSeq,
+      resync: missed === null,
+    });
+    missed
+      ?.filter((entry) => hears(user.role, entry.event))
+      .forEach(({ seq, event }) => send({ kind: 'event', seq, event }));
+
+    return () => {
+      const room = rooms.get(key);
+      room?.delete(send);
+      if (room?.size === 0) rooms.delete(key);
+    };
+  };
+
+  // A socket that misses a whole interval without answering the last ping is
+  // half-open (a closed laptop, a dropped Wi-Fi link) and is cut loose. The
+  // heartbeat message lets browsers, which can't see pings, check the same,
+  // and keeps proxies from timing out an idle event stream.
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        ws.terminate();
+        return;
+      }
+      alive.delete(ws);
+      ws.ping();
+    });
+    rooms.forEach((room) => room.forEach((send) => send({ kind: 'heartbeat' })));
+  }, HEARTBEAT_INTERVAL_MS);
+  httpServer.on('close', () => clearInterval(heartbeat));
+
+  // Other upgrades (the Vite dev server's among them) are left alone.
+  httpServer.on('upgrade', async (req, socket, head) => {
+    if (requestUrl(req).pathname !== '/ws') return;
+
+    const user = await authenticateOrLog(req);
+    if (!user) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, req, user));
+  });
+
+  wss.on('connection', (ws: WebSocket, req: IncomingMessage, user: User) => {
+    console.log(`WebSocket client connected (${user.role})`);
+
+    alive.add(ws);
+    ws.on('pong', () => alive.add(ws));
+    const leave = join(user, req, (message) => {
+      if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+      }
+    });
+
+    ws.on('error', console.error);
+
+    ws.on('close', () => {
+      console.log('WebSocket client disconnected');
+      alive.delete(ws);
+      leave();
+    });
+  });
+
+  // Takes the same ?since=, ?epoch= and ?token= parameters as /ws. Every
+  // message goes out as an unnamed event whose data is the JSON message.
+  app.get('/api/events', async (req, res) => {
+    const user = await authenticateOrLog(req);
+    if (!user) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stops nginx from holding events back in its buffer.
+      'X-Accel-Buffering': 'no',
+    });
+    console.log(`Event stream opened (${user.role})`);
+
+    const leave = join(user, req, (message) => {
+      res.write(`data: ${JSON.stringify(message)}\n\n`);
+    });
+
+    req.on('close', () => {
+      console.log('Event stream closed');
+      leave();
+    });
+  });
+
+  // Events are checked against the shared schema before they go out, so a
+  // malformed payload is caught here rather than on every screen.
+  return (restaurantId: string, event: ServerEvent) => {
+    const checked = serverEventSchema.safeParse(event);
+    if (!checked.success) {
+      console.error(`Not broadcasting invalid ${event.type} event:`, checked.error.issues);
+      return;
+    }
+    const { seq } = logFor(restaurantId).append(event);
+    ROLES.filter((role) => hears(role, event)).forEach((role) => {
+      rooms.get(roomKey(restaurantId, role))?.forEach((send) => send({ kind: 'event', seq, event }));
+    });
+  };
+}
@@ -0,0 +1,34 @@
+import type { Express } from "express";
+import { buildZReport } from "@shared/reports";
+import type { api } from "@shared/api";
+import { storage } from "./storage";
+import { requireAuth, requirePermission } from "./auth";
+import { requireRestaurant } from "./tenancy";
+import type { ApiRes } from "./contract";
+
+export function registerReportRoutes(app: Express) {
+  app.use('/api/reports', requireAuth, requireRestaurant);
+
+  // Z-report for one shift. Works on an open shift too, as a mid-shift
+  // reading; the cash variance only appears once the drawer is counted.
+  app.get('/api/reports/z/:shiftId', requirePermission('revenue:view'), async (req, res: ApiRes<typeof api.reports.z>) => {
+    try {
+      const restaurantId = req.restaurant!.id;
+      const shift = await storage.getShift(restaurantId, req.params.shiftId);
+
+      if (!shift) {
+        return res.status(404).json({ error: 'Shift not found' });
+      }
+
+      const [orders, adjustments] = await Promise.all([
+        storage.getOrders(restaurantId, { shiftId: shift.id }),
+        storage.getShiftAdjustments(restaurantId, shift.id),
+      ]);
+
+      res.json(buildZReport(shift, orders, adjustments));
+    } catch (error) {
+      console.error('Error building Z-report:', error);
+      res.status(500).json({ error: 'Failed to build Z-report' });
+    }
+  });
+}
@@ -0,0 +1,180 @@
+import express from "express";
+import type { Server } from "http";
+import request from "supertest";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { Role } from "@shared/permissions";
+import type { Order } from "@shared/schema";
+import { hashPassword } from "./auth";
+import { registerRoutes } from "./routes";
+import { storage } from "./storage";
+
+// The routes use the storage singleton, which must not pick up a real
+// DATABASE_URL from the environment. Runs before the imports.
+vi.hoisted(() => {
+  process.env.STORAGE = "memory";
+});
+
+type Agent = ReturnType<typeof request.agent>;
+
+const teaOrder = {
+  orderNumber: 1,
+  customerName: "Asha",
+  items: [{ name: "Tea", unitPrice: "20.00", taxRate: "5", quantity: 2 }],
+};
+
+describe("routes", () => {
+  const app = express();
+  app.use(express.json());
+  let server: Server;
+  let restaurantId: string;
+  let otherRestaurantId: string;
+  const staff = {} as Record<Role, Agent>;
+  let elsewhere: Agent;
+
+  async function signIn(restaurantId: string, role: Role): Promise<Agent> {
+    const username = `${role}-${restaurantId}`;
+    await storage.createUser(restaurantId, {
+      username,
+      password: await hashPassword("secret"),
+      displayName: username,
+      role,
+    });
+    const agent = request.agent(app);
+    await agent.post("/api/login").send({ username, password: "secret" }).expect(200);
+    return agent;
+  }
+
+  async function placeOrder(agent: Agent = staff.owner): Promise<Order> {
+    const response = await agent.post("/api/orders").send(teaOrder).expect(201);
+    return response.body;
+  }
+
+  beforeAll(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    server = await registerRoutes(app);
+
+    restaurantId = (await storage.createRestaurant({ name: "Chai Point" })).id;
+    otherRestaurantId = (await storage.createRestaurant({ name: "Elsewhere" })).id;
+    for (const role of ["owner", "manager", "cashier", "kitchen"] as const) {
+      staff[role] = await signIn(restaurantId, role);
+    }
+    elsewhere = await signIn(otherRestaurantId, "owner");
+  });
+
+  afterAll(() => {
+    server.close();
+    vi.restoreAllMocks();
+  });
+
+  it("turns away anyone who isn't signed in", async () => {
+    await request(app).get("/api/orders").expect(401);
+    await request(app).post("/api/orders").send(teaOrder).expect(401);
+  });
+
+  describe("permissions", () => {
+    const forbidden: [Role, string, (agent: Agent) => request.Test][] = [
+      ["manager", "manage staff", (agent) => agent.get("/api/users")],
+      ["manager", "change the restaurant's settings", (agent) => agent.patch("/api/restaurants/any").send({})],
+      ["manager", "close the business day", (agent) => agent.post("/api/business-days/current/close").send({})],
+      ["cashier", "manage staff", (agent) => agent.get("/api/users")],
+      ["cashier", "change the menu", (agent) => agent.post("/api/menu/categories").send({ name: "Snacks" })],
+      ["cashier", "manage promotions", (agent) => agent.post("/api/promotions").send({})],
+      ["cashier", "ring up items that aren't on the menu", (agent) => agent.post("/api/orders").send(teaOrder)],
+      ["cashier", "accept an order", (agent) => agent.patch("/api/orders/any/status").send({ status: "accepted" })],
+      ["cashier", "void an order", (agent) => agent.post("/api/orders/any/void").send({ reasonCode: "wrong_order" })],
+      ["kitchen", "place an order", (agent) => agent.post("/api/orders").send(teaOrder)],
+      ["kitchen", "take payment", (agent) => agent.post("/api/orders/any/payments").send({})],
+      ["kitchen", "refund an order", (agent) => agent.post("/api/orders/any/refunds").send({})],
+      ["kitchen", "serve an order", (agent) => agent.patch("/api/orders/any/status").send({ status: "served" })],
+      ["kitchen", "open a shift", (agent) => agent.post("/api/shifts").send({})],
+      ["kitchen", "see the revenue", (agent) => agent.get("/api/analytics/summary")],
+    ];
+
+    it.each(forbidden)("doesn't let the %s %s", async (role, _action, send) => {
+      const response = await send(staff[role]).expect(403);
+      expect(response.body.error).toMatch(/permission/);
+    });
+
+    it("lets each role do what it is allowed to", async () => {
+      await staff.manager.post("/api/orders").send(teaOrder).expect(201);
+      const order = await placeOrder();
+
+      await staff.kitchen.patch(`/api/orders/${order.id}/status`).send({ status: "accepted" }).expect(200);
+      await staff.cashier.get("/api/analytics/summary").expect(200);
+      await staff.owner.get("/api/users").expect(200);
+    });
+  });
+
+  describe("restaurants", () => {
+    it("only lists the caller's own restaurant's orders", async () => {
+      const order = await placeOrder();
+      const theirs = await placeOrder(elsewhere);
+
+      const ours = await staff.owner.get("/api/orders").expect(200);
+      const ids = ours.body.map((listed: Order) => listed.id);
+
+      expect(ids).toContain(order.id);
+      expect(ids).not.toContain(theirs.id);
+    });
+
+    it("can't see or change another restaurant's orders", async () => {
+      const order = await placeOrder();
+
+      await elsewhere.get(`/api/orders/${order.id}/timeline`).expect(404);
+      await elsewhere.patch(`/api/orders/${order.id}/status`).send({ status: "accepted" }).expect(404);
+      await elsewhere.post(`/api/orders/${order.id}/void`).send({ reasonCode: "wrong_order" }).expect(404);
+      await elsewhere
+        .post(`/api/orders/${order.id}/payments`)
+        .send({ payments: [{ method: "cash", amount: "1.00" }] })
+        .expect(404);
+
+      const timeline = await staff.owner.get(`/api/orders/${order.id}/timeline`).expect(200);
+      expect(timeline.body).toHaveLength(1);
+    });
+
+    it("refuses to act on another restaurant by asking for it", async () => {
+      await elsewhere.get("/api/orders").query({ restaurant_id: restaurantId }).expect(403);
+      await elsewhere.get("/api/orders").set("X-Restaurant-Id", restaurantId).expect(403);
+      await elsewhere.patch(`/api/restaurants/${restaurantId}`).send({ name: "Mine now" }).expect(404);
+    });
+  });
+
+  describe("status changes", () => {
+    const moveTo = (order: Order, status: string) =>
+      staff.owner.patch(`/api/orders/${order.id}/status`).send({ status });
+
+    it("refuses a move the order can't make, and says which it can", async () => {
+      const order = await placeOrder();
+
+      const response = await moveTo(order, "served").expect(409);
+
+      expect(response.body).toEqual({
+        error: 'Cannot move order from "pending" to "served"',
+        allowed: ["accepted", "rejected", "cancelled"],
+      });
+      await moveTo(order, "accepted").expect(200);
+      await moveTo(order, "pending").expect(409);
+    });
+
+    it("refuses to complete an order that hasn't been paid", async () => {
+      const order = await placeOrder();
+      for (const status of ["accepted", "preparing", "ready", "served"]) {
+        await moveTo(order, status).expect(200);
+      }
+
+      const response = await moveTo(order, "completed").expect(409);
+
+      expect(response.body).toEqual({
+        error: "Settle the bill before completing the order",
+        paymentStatus: "unpaid",
+      });
+    });
+
+    it("refuses to move a finished order", async () => {
+      const order = await placeOrder();
+      await moveTo(order, "rejected").expect(200);
+
+      await moveTo(order, "accepted").expect(409);
+    });
+  });
+});
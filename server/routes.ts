@@ -1,50 +1,151 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
-import { insertOrderSchema } from "@shared/schema";
+import { OrderConflictError, storage } from "./storage";
+import {
+  createOrderSchema,
+  insertUserSchema,
+  settleOrderSchema,
+  updateRestaurantSchema,
+} from "@shared/schema";
+import { ORDER_STATUSES, isOrderStatus } from "@shared/orderStatus";
+import { orderChangedEvent } from "@shared/events";
+import type { api } from "@shared/api";
+import { setupRealtime } from "./realtime";
 import { sampleOrders } from "./test-order";
+import { requireRestaurant } from "./tenancy";
+import { registerMenuRoutes } from "./menu";
+import { registerPromotionRoutes } from "./promotions";
+import { registerAdjustmentRoutes } from "./adjustments";
+import { isOrderLocked, registerShiftRoutes } from "./shifts";
+import { registerReportRoutes } from "./reports";
+import { registerAnalyticsRoutes } from "./analytics";
+import {
+  OrderTotalMismatchError,
+  OrderValidationError,
+  PromoCodeError,
+  placeOrder,
+} from "./orders";
+import {
+  hashPassword,
+  requireAuth,
+  requireOpenPricePermission,
+  requirePermission,
+  requireStatusPermission,
+  setupAuth,
+  toPublicUser,
+} from "./auth";
+import type { ApiRes } from "./contract";
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  const authenticateRealtime = await setupAuth(app);
+
   const httpServer = createServer(app);
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  const broadcast = setupRealtime(app, httpServer, authenticateRealtime);
 
-  const broadcast = (data: any) => {
-    wss.clients.forEach((client) => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(JSON.stringify(data));
+  // Sample orders trickle in for demos and local work. They are real orders
+  // to storage, so anywhere else this has to be asked for with
+  // SIMULATE_ORDERS=1.
+  if (app.get('env') === 'development' || process.env.SIMULATE_ORDERS === '1') {
+    let orderIndex = 0;
+    const simulator = setInterval(async () => {
+      if (orderIndex >= sampleOrders.length) {
+        clearInterval(simulator);
+        return;
       }
-    });
-  };
-
-  wss.on('connection', (ws) => {
-    console.log('WebSocket client connected');
-
-    ws.on('error', console.error);
-
-    ws.on('close', () => {
-      console.log('WebSocket client disconnected');
-    });
-  });
-
-  let orderIndex = 0;
-  setInterval(async () => {
-    if (orderIndex < sampleOrders.length) {
       const sampleOrder = sampleOrders[orderIndex];
       try {
-        const order = await storage.createOrder(sampleOrder);
-        broadcast({ type: 'NEW_ORDER', order });
+        const [restaurant] = await storage.getRestaurants();
+        if (!restaurant) return;
+
+        const order = await placeOrder(restaurant, sampleOrder);
+        broadcast(restaurant.id, { type: 'ORDER_CREATED', order });
         console.log(`Simulated new order: #${order.orderNumber}`);
         orderIndex++;
       } catch (error) {
         console.error('Error creating simulated order:', error);
       }
+    }, 8000);
+  }
+
+  app.get('/api/restaurants', requireAuth, requireRestaurant, (req, res: ApiRes<typeof api.restaurants.list>) => {
+    res.json([req.restaurant!]);
+  });
+
+  // Settings (pricing, approvals, timezone and day cutover) for the caller's restaurant.
+  app.patch('/api/restaurants/:id', requireAuth, requireRestaurant, requirePermission('settings:manage'), async (req, res: ApiRes<typeof api.restaurants.update>) => {
+    try {
+      if (req.params.id !== req.restaurant!.id) {
+        return res.status(404).json({ error: 'Restaurant not found' });
+      }
+      const changes = updateRestaurantSchema.parse(req.body);
+      const restaurant = await storage.updateRestaurant(req.restaurant!.id, changes);
+      res.json(restaurant);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid restaurant data', details: error.errors });
+      }
+      console.error('Server error updating restaurant:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/users', requireAuth, requireRestaurant, requirePermission('staff:manage'), async (req, res: ApiRes<typeof api.users.list>) => {
+    try {
+      const users = await storage.getUsers(req.restaurant!.id);
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({ error: 'Failed to fetch users' });
+    }
+  });
+
+  app.post('/api/users', requireAuth, requireRestaurant, requirePermission('staff:manage'), async (req, res: ApiRes<typeof api.users.create>) => {
+    try {
+      const validatedData = insertUserSchema.parse(req.body);
+
+      if (await storage.getUserByUsername(validatedData.username)) {
+        return res.status(409).json({ error: 'Username already taken' });
+      }
+
+      const user = await storage.createUser(req.restaurant!.id, {
+        ...validatedData,
+        password: await hashPassword(validatedData.password),
+      });
+      res.status(201).json(toPublicUser(user));
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid user data', details: error.errors });
+      }
+      console.error('Server error creating user:', error);
+      res.status(500).json({ error: 'Internal server error' });
     }
-  }, 8000);
+  });
+
+  registerMenuRoutes(app, broadcast);
+  registerPromotionRoutes(app);
+  registerShiftRoutes(app, broadcast);
+  registerReportRoutes(app);
+  registerAnalyticsRoutes(app);
 
-  app.get('/api/orders', async (req, res) => {
+  // Every order route acts on exactly one restaurant; orders belonging to
+  // any other restaurant are invisible to it.
+  app.use('/api/orders', requireAuth, requireRestaurant);
+  registerAdjustmentRoutes(app, broadcast);
+
+  // ?shift_id=current scopes the list to the open shift, or to the orders
+  // waiting for one when no shift is open.
+  app.get('/api/orders', requirePermission('orders:view'), async (req, res: ApiRes<typeof api.orders.list>) => {
     try {
-      const orders = await storage.getOrders();
+      const { shift_id } = req.query;
+      let shiftId: string | null | undefined;
+
+      if (shift_id === 'current') {
+        shiftId = (await storage.getCurrentShift(req.restaurant!.id))?.shift.id ?? null;
+      } else if (typeof shift_id === 'string' && shift_id) {
+        shiftId = shift_id;
+      }
+
+      const orders = await storage.getOrders(req.restaurant!.id, { shiftId });
       res.json(orders);
     } catch (error) {
       console.error('Error fetching orders:', error);
@@ -52,12 +153,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/orders', async (req, res) => {
+  app.post('/api/orders', requirePermission('orders:create'), requireOpenPricePermission, async (req, res: ApiRes<typeof api.orders.create>) => {
     try {
-      const validatedData = insertOrderSchema.parse(req.body);
-      const order = await storage.createOrder(validatedData);
+      const validatedData = createOrderSchema.parse(req.body);
+      const order = await placeOrder(req.restaurant!, validatedData);
       
-      broadcast({ type: 'NEW_ORDER', order });
+      broadcast(req.restaurant!.id, { type: 'ORDER_CREATED', order });
       
       res.status(201).json(order);
     } catch (error: any) {
@@ -65,34 +166,116 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.error('Validation error:', error);
         return res.status(400).json({ error: 'Invalid order data', details: error.errors });
       }
+      if (error instanceof OrderValidationError) {
+        return res.status(400).json({ error: error.message, details: error.problems });
+      }
+      if (error instanceof PromoCodeError) {
+        return res.status(400).json({ error: error.message, code: error.code });
+      }
+      if (error instanceof OrderTotalMismatchError) {
+        return res.status(409).json({
+          error: error.message,
+          submitted: error.submitted,
+          computed: error.computed,
+        });
+      }
       console.error('Server error creating order:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   });
 
-  app.patch('/api/orders/:id/status', async (req, res) => {
+  app.patch('/api/orders/:id/status', requireStatusPermission, async (req, res: ApiRes<typeof api.orders.updateStatus>) => {
     try {
       const { id } = req.params;
       const { status } = req.body;
 
-      if (!status || (status !== 'pending' && status !== 'completed')) {
-        return res.status(400).json({ error: 'Invalid status. Must be "pending" or "completed"' });
+      if (!isOrderStatus(status)) {
+        return res.status(400).json({
+          error: `Invalid status. Must be one of: ${ORDER_STATUSES.join(', ')}`,
+        });
       }
 
-      const order = await storage.updateOrderStatus(id, status);
+      const order = await storage.updateOrderStatus(
+        req.restaurant!.id,
+        id,
+        status,
+        req.user!.displayName,
+      );
 
       if (!order) {
         return res.status(404).json({ error: 'Order not found' });
       }
 
-      broadcast({ type: 'ORDER_UPDATED', order });
+      broadcast(req.restaurant!.id, orderChangedEvent(order));
 
       res.json(order);
     } catch (error) {
+      if (error instanceof OrderConflictError) {
+        return res.status(409).json({ error: error.message, ...error.details });
+      }
       console.error('Server error updating order:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   });
 
+  // Records one or more tenders against an order; a bill can be split across
+  // cash, card, UPI and wallets. Paying more than is due is refused.
+  app.post('/api/orders/:id/payments', requirePermission('payments:settle'), async (req, res: ApiRes<typeof api.orders.settle>) => {
+    try {
+      const { id } = req.params;
+      const { payments } = settleOrderSchema.parse(req.body);
+      const existing = await storage.getOrder(req.restaurant!.id, id);
+
+      if (!existing) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      if (await isOrderLocked(req.restaurant!.id, existing)) {
+        return res.status(409).json({ error: 'This order belongs to a closed shift' });
+      }
+
+      const order = await storage.addPayments(
+        req.restaurant!.id,
+        id,
+        payments,
+        req.user!.displayName,
+      );
+
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      broadcast(req.restaurant!.id, { type: 'ORDER_UPDATED', order });
+
+      res.status(201).json(order);
+    } catch (error: any) {
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid payment data', details: error.errors });
+      }
+      if (error instanceof OrderConflictError) {
+        return res.status(409).json({ error: error.message, ...error.details });
+      }
+      console.error('Server error recording payment:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/orders/:id/timeline', requirePermission('orders:view'), async (req, res: ApiRes<typeof api.orders.timeline>) => {
+    try {
+      const { id } = req.params;
+      const order = await storage.getOrder(req.restaurant!.id, id);
+
+      if (!order) {
+        return res.status(404).json({ error: 'Order not found' });
+      }
+
+      const timeline = await storage.getOrderTimeline(req.restaurant!.id, id);
+      res.json(timeline);
+    } catch (error) {
+      console.error('Error fetching order timeline:', error);
+      res.status(500).json({ error: 'Failed to fetch order timeline' });
+    }
+  });
+
   return httpServer;
 }
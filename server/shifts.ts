@@ -0,0 +1,141 @@
+import type { Express } from "express";
+import { closeShiftSchema, openShiftSchema, type Order } from "@shared/schema";
+import { businessDateFor } from "@shared/businessDay";
+import type { api } from "@shared/api";
+import { OrderConflictError, storage } from "./storage";
+import { requireAuth, requirePermission } from "./auth";
+import { requireRestaurant } from "./tenancy";
+import type { Broadcast } from "./realtime";
+import type { ApiRes } from "./contract";
+
+// Orders in a closed shift can't change any more: not their status, their
+// payments, or their refunds.
+export async function isOrderLocked(restaurantId: string, order: Order): Promise<boolean> {
+  if (!order.shiftId) return false;
+  const shift = await storage.getShift(restaurantId, order.shiftId);
+  return !!shift?.closedAt;
+}
+
+export function registerShiftRoutes(app: Express, broadcast: Broadcast) {
+  app.use('/api/shifts', requireAuth, requireRestaurant);
+  app.use('/api/business-days', requireAuth, requireRestaurant);
+
+  app.get('/api/shifts/current', async (req, res: ApiRes<typeof api.shifts.current>) => {
+    try {
+      res.json(await storage.getCurrentShift(req.restaurant!.id));
+    } catch (error) {
+      console.error('Error fetching current shift:', error);
+      res.status(500).json({ error: 'Failed to fetch current shift' });
+    }
+  });
+
+  app.get('/api/shifts', requirePermission('revenue:view'), async (req, res: ApiRes<typeof api.shifts.list>) => {
+    try {
+      res.json(await storage.getShifts(req.restaurant!.id));
+    } catch (error) {
+      console.error('Error fetching shifts:', error);
+      res.status(500).json({ error: 'Failed to fetch shifts' });
+    }
+  });
+
+  app.post('/api/shifts', requirePermission('shifts:manage'), async (req, res: ApiRes<typeof api.shifts.open>) => {
+    try {
+      const { openingFloat } = openShiftSchema.parse(req.body);
+      const restaurantId = req.restaurant!.id;
+
+      // A new business day starts with the first shift after the last close,
+      // dated by the restaurant's clock and day cutover.
+      const businessDate = businessDateFor(new Date(), req.restaurant!);
+      const openDay = await storage.getOpenBusinessDay(restaurantId);
+      const sameDate = openDay ? undefined : await storage.getBusinessDay(restaurantId, businessDate);
+
+      if (sameDate?.closedAt) {
+        return res.status(409).json({ error: `The business day for ${businessDate} is already closed` });
+      }
+
+      const current = await storage.openShift(
+        restaurantId,
+        businessDate,
+        openingFloat,
+        req.user!.displayName,
+      );
+
+      broadcast(req.restaurant!.id, { type: 'SHIFT_OPENED', current });
+
+      res.status(201).json(current);
+    } catch (error: any) {
+      if (error instanceof OrderConflictError) {
+        return res.status(409).json({ error: error.message, ...error.details });
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid shift data', details: error.errors });
+      }
+      console.error('Server error opening shift:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Storage refuses to close a shift that still has open orders.
+  app.post('/api/shifts/:id/close', requirePermission('shifts:manage'), async (req, res: ApiRes<typeof api.shifts.close>) => {
+    try {
+      const closing = closeShiftSchema.parse(req.body);
+      const shift = await storage.closeShift(
+        req.restaurant!.id,
+        req.params.id,
+        closing,
+        req.user!.displayName,
+      );
+
+      if (!shift) {
+        return res.status(404).json({ error: 'Shift not found' });
+      }
+
+      broadcast(req.restaurant!.id, { type: 'SHIFT_CLOSED', shift });
+
+      res.json(shift);
+    } catch (error: any) {
+      if (error instanceof OrderConflictError) {
+        return res.status(409).json({ error: error.message, ...error.details });
+      }
+      if (error.name === 'ZodError') {
+        return res.status(400).json({ error: 'Invalid shift data', details: error.errors });
+      }
+      console.error('Server error closing shift:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Close of day: ends the open business day once its last shift is closed.
+  app.post('/api/business-days/current/close', requirePermission('day:close'), async (req, res: ApiRes<typeof api.shifts.closeBusinessDay>) => {
+    try {
+      const restaurantId = req.restaurant!.id;
+
+      if (await storage.getCurrentShift(restaurantId)) {
+        return res.status(409).json({ error: 'Close the current shift first' });
+      }
+
+      const openDay = await storage.getOpenBusinessDay(restaurantId);
+
+      if (!openDay) {
+        return res.status(404).json({ error: 'No business day is open' });
+      }
+
+      const businessDay = await storage.closeBusinessDay(
+        restaurantId,
+        openDay.id,
+        req.user!.displayName,
+      );
+
+      if (!businessDay) {
+        return res.status(404).json({ error: 'No business day is open' });
+      }
+
+      broadcast(req.restaurant!.id, { type: 'BUSINESS_DAY_CLOSED', businessDay });
+
+      res.json(businessDay);
+    } catch (error) {
+      console.error('Server error closing business day:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+}
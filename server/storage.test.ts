@@ -0,0 +1,703 @@
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import session from "express-session";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import * as schema from "@shared/schema";
+import type { InsertOrder, InsertOrderItem } from "@shared/schema";
+import { toCents } from "@shared/money";
+import { DatabaseStorage, MemStorage, OrderConflictError, type IStorage } from "./storage";
+
+// The ESM build of drizzle-kit's API can't load its own dependencies.
+const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)(
+  "drizzle-kit/api",
+) as typeof import("drizzle-kit/api");
+
+// DatabaseStorage on Postgres compiled to WebAssembly, with the schema
+// created the way drizzle-kit would migrate an empty database.
+async function databaseStorage(): Promise<IStorage> {
+  const client = new PGlite();
+  const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+  for (const statement of statements) await client.exec(statement);
+  return new DatabaseStorage(drizzle(client, { schema }), new session.MemoryStore());
+}
+
+const backends: [string, () => Promise<IStorage>][] = [
+  ["MemStorage", async () => new MemStorage()],
+  ["DatabaseStorage", databaseStorage],
+];
+
+const tea: InsertOrderItem = {
+  name: "Tea",
+  quantity: 2,
+  unitPrice: "5.00",
+  taxRate: "5.00",
+  modifiers: [],
+};
+
+const samosa: InsertOrderItem = {
+  name: "Samosa",
+  quantity: 1,
+  unitPrice: "3.00",
+  taxRate: "5.00",
+  modifiers: [],
+};
+
+function orderOf(orderNumber: number, totalPrice: string, overrides: Partial<InsertOrder> = {}) {
+  return {
+    orderNumber,
+    customerName: "Asha",
+    subtotal: totalPrice,
+    totalPrice,
+    ...overrides,
+  } satisfies InsertOrder;
+}
+
+// Orders created in the same millisecond would have no defined order.
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+let usernames = 0;
+
+describe.each(backends)("%s", (_backend, create) => {
+  let storage: IStorage;
+  let restaurantId: string;
+  let otherRestaurantId: string;
+
+  beforeAll(async () => {
+    storage = await create();
+  });
+
+  // Every test gets restaurants of its own, which keeps the tests apart
+  // without a fresh database each time.
+  beforeEach(async () => {
+    restaurantId = (await storage.createRestaurant({ name: "Chai Point" })).id;
+    otherRestaurantId = (await storage.createRestaurant({ name: "Elsewhere" })).id;
+  });
+
+  describe("users", () => {
+    it("creates users and finds them by id and username", async () => {
+      const username = `cashier${++usernames}`;
+      const user = await storage.createUser(restaurantId, {
+        username,
+        password: "hashed",
+        displayName: "Ravi",
+        role: "cashier",
+      });
+
+      expect(user).toMatchObject({ username, restaurantId, role: "cashier" });
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername(username)).toEqual(user);
+      expect(await storage.getUserByUsername("nobody")).toBeUndefined();
+    });
+
+    it("lists only the restaurant's own staff", async () => {
+      const mine = await storage.createUser(restaurantId, {
+        username: `owner${++usernames}`,
+        password: "hashed",
+        displayName: "Meera",
+        role: "owner",
+      });
+      await storage.createUser(otherRestaurantId, {
+        username: `owner${++usernames}`,
+        password: "hashed",
+        displayName: "Someone else",
+        role: "owner",
+      });
+
+      expect(await storage.getUsers(restaurantId)).toEqual([mine]);
+    });
+  });
+
+  describe("restaurants", () => {
+    it("fills in the defaults", async () => {
+      const restaurant = await storage.getRestaurant(restaurantId);
+
+      expect(restaurant).toMatchObject({
+        name: "Chai Point",
+        serviceChargeRate: "0.00",
+        roundingIncrement: 100,
+        voidApprovalRequired: false,
+        refundApprovalLimit: null,
+      });
+      expect((await storage.getRestaurants()).map((r) => r.id)).toContain(restaurantId);
+    });
+
+    it("updates settings", async () => {
+      const updated = await storage.updateRestaurant(restaurantId, {
+        refundApprovalLimit: "500.00",
+        voidApprovalRequired: true,
+      });
+
+      expect(updated).toMatchObject({ refundApprovalLimit: "500.00", voidApprovalRequired: true });
+      expect(await storage.getRestaurant(restaurantId)).toEqual(updated);
+      expect(await storage.updateRestaurant("missing", { name: "x" })).toBeUndefined();
+    });
+  });
+
+  describe("menu", () => {
+    it("orders categories by position, then name", async () => {
+      await storage.createMenuCategory(restaurantId, { name: "Snacks", position: 1 });
+      await storage.createMenuCategory(restaurantId, { name: "Drinks", position: 0 });
+      await storage.createMenuCategory(restaurantId, { name: "Desserts", position: 1 });
+
+      const names = (await storage.getMenuCategories(restaurantId)).map((c) => c.name);
+      expect(names).toEqual(["Drinks", "Desserts", "Snacks"]);
+    });
+
+    it("only changes categories in the same restaurant", async () => {
+      const category = await storage.createMenuCategory(restaurantId, { name: "Drinks" });
+
+      expect(await storage.updateMenuCategory(otherRestaurantId, category.id, { name: "x" }))
+        .toBeUndefined();
+      expect(await storage.deleteMenuCategory(otherRestaurantId, category.id)).toBe(false);
+      expect(await storage.updateMenuCategory(restaurantId, category.id, { name: "Beverages" }))
+        .toMatchObject({ name: "Beverages" });
+      expect(await storage.deleteMenuCategory(restaurantId, category.id)).toBe(true);
+      expect(await storage.getMenuCategories(restaurantId)).toEqual([]);
+    });
+
+    it("creates, updates and deletes items", async () => {
+      const category = await storage.createMenuCategory(restaurantId, { name: "Drinks" });
+      const item = await storage.createMenuItem(restaurantId, {
+        categoryId: category.id,
+        name: "Masala Chai",
+        price: "40.00",
+      });
+
+      expect(item).toMatchObject({ description: null, isAvailable: true, position: 0 });
+      expect(await storage.getMenuItem(otherRestaurantId, item.id)).toBeUndefined();
+
+      const updated = await storage.updateMenuItem(restaurantId, item.id, { isAvailable: false });
+      expect(updated).toMatchObject({ isAvailable: false, price: "40.00" });
+      expect(await storage.getMenuItems(restaurantId)).toEqual([updated]);
+
+      expect(await storage.deleteMenuItem(otherRestaurantId, item.id)).toBe(false);
+      expect(await storage.deleteMenuItem(restaurantId, item.id)).toBe(true);
+      expect(await storage.getMenuItem(restaurantId, item.id)).toBeUndefined();
+    });
+
+    it("replaces an item's modifier groups", async () => {
+      const category = await storage.createMenuCategory(restaurantId, { name: "Drinks" });
+      const item = await storage.createMenuItem(restaurantId, {
+        categoryId: category.id,
+        name: "Coffee",
+        price: "60.00",
+      });
+
+      await storage.replaceModifierGroups(restaurantId, item.id, [
+        { name: "Milk", minSelections: 0, maxSelections: 1, options: [{ name: "Oat", priceDelta: "15.00" }] },
+      ]);
+      const groups = await storage.replaceModifierGroups(restaurantId, item.id, [
+        {
+          name: "Size",
+          minSelections: 1,
+          maxSelections: 1,
+          options: [
+            { name: "Small", priceDelta: "0.00" },
+            { name: "Large", priceDelta: "20.00" },
+          ],
+        },
+        { name: "Sugar", minSelections: 0, maxSelections: 1, options: [{ name: "None", priceDelta: "0.00" }] },
+      ]);
+
+      expect(groups.map((g) => [g.name, g.position])).toEqual([["Size", 0], ["Sugar", 1]]);
+      expect(groups[0].options.map((o) => [o.name, o.priceDelta, o.position])).toEqual([
+        ["Small", "0.00", 0],
+        ["Large", "20.00", 1],
+      ]);
+      expect(await storage.getModifierGroups(restaurantId)).toEqual(groups);
+      expect(await storage.getModifierGroups(otherRestaurantId)).toEqual([]);
+      expect(await storage.replaceModifierGroups(otherRestaurantId, item.id, [])).toEqual([]);
+      expect(await storage.getModifierGroups(restaurantId)).toHaveLength(2);
+    });
+  });
+
+  describe("promotions", () => {
+    it("fills in the defaults and lists by name", async () => {
+      await storage.createPromotion(restaurantId, { name: "Weekend", code: null, kind: "flat", scope: "order", value: "50.00" });
+      const happyHour = await storage.createPromotion(restaurantId, {
+        name: "Happy hour",
+        code: null,
+        kind: "percentage",
+        scope: "order",
+        value: "10.00",
+      });
+
+      expect(happyHour).toMatchObject({
+        code: null,
+        menuItemId: null,
+        buyQuantity: null,
+        startsAt: null,
+        isActive: true,
+      });
+      const names = (await storage.getPromotions(restaurantId)).map((p) => p.name);
+      expect(names).toEqual(["Happy hour", "Weekend"]);
+    });
+
+    it("only changes promotions in the same restaurant", async () => {
+      const promotion = await storage.createPromotion(restaurantId, {
+        name: "Festive",
+        code: "DIWALI",
+        kind: "percentage",
+        scope: "order",
+        value: "15.00",
+      });
+
+      expect(await storage.getPromotion(otherRestaurantId, promotion.id)).toBeUndefined();
+      expect(await storage.updatePromotion(otherRestaurantId, promotion.id, { isActive: false }))
+        .toBeUndefined();
+      expect(await storage.updatePromotion(restaurantId, promotion.id, { isActive: false }))
+        .toMatchObject({ isActive: false, code: "DIWALI" });
+      expect(await storage.deletePromotion(otherRestaurantId, promotion.id)).toBe(false);
+      expect(await storage.deletePromotion(restaurantId, promotion.id)).toBe(true);
+      expect(await storage.getPromotions(restaurantId)).toEqual([]);
+    });
+  });
+
+  describe("shifts and business days", () => {
+    it("has no current shift until one is opened", async () => {
+      expect(await storage.getCurrentShift(restaurantId)).toBeNull();
+      expect(await storage.getOpenBusinessDay(restaurantId)).toBeUndefined();
+    });
+
+    it("opens a business day with the first shift and reuses it for the next", async () => {
+      const first = await storage.openShift(restaurantId, "2024-05-31", "1000.00", "Meera");
+
+      expect(first.businessDay).toMatchObject({ businessDate: "2024-05-31", closedAt: null });
+      expect(first.shift).toMatchObject({ openingFloat: "1000.00", openedBy: "Meera", closedAt: null });
+      expect(await storage.getCurrentShift(restaurantId)).toEqual(first);
+      expect(await storage.getCurrentShift(otherRestaurantId)).toBeNull();
+
+      const closed = await storage.closeShift(
+        restaurantId,
+        first.shift.id,
+        { closingCash: "1450.00", notes: "Quiet" },
+        "Meera",
+      );
+      expect(closed).toMatchObject({ closingCash: "1450.00", notes: "Quiet", closedBy: "Meera" });
+      expect(closed!.closedAt).toBeInstanceOf(Date);
+      expect(await storage.getCurrentShift(restaurantId)).toBeNull();
+
+      await tick();
+      const second = await storage.openShift(restaurantId, "2024-06-01", "500.00", "Ravi");
+      expect(second.businessDay.id).toBe(first.businessDay.id);
+      expect((await storage.getShifts(restaurantId)).map((s) => s.id)).toEqual([
+        second.shift.id,
+        first.shift.id,
+      ]);
+    });
+
+    it("closes a business day", async () => {
+      const { businessDay } = await storage.openShift(restaurantId, "2024-05-31", "0.00", "Meera");
+
+      expect(await storage.closeBusinessDay(otherRestaurantId, businessDay.id, "Meera")).toBeUndefined();
+      const closed = await storage.closeBusinessDay(restaurantId, businessDay.id, "Meera");
+
+      expect(closed).toMatchObject({ id: businessDay.id, closedBy: "Meera" });
+      expect(await storage.getOpenBusinessDay(restaurantId)).toBeUndefined();
+      expect(await storage.getBusinessDay(restaurantId, "2024-05-31")).toEqual(closed);
+    });
+
+    it("brings orders placed while no shift was open into the next shift", async () => {
+      const waiting = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      const elsewhere = await storage.createOrder(otherRestaurantId, orderOf(1, "10.00"), [tea]);
+
+      expect(await storage.getOrders(restaurantId, { shiftId: null })).toHaveLength(1);
+
+      const { shift } = await storage.openShift(restaurantId, "2024-05-31", "0.00", "Meera");
+
+      expect((await storage.getOrder(restaurantId, waiting.id))!.shiftId).toBe(shift.id);
+      expect((await storage.getOrder(otherRestaurantId, elsewhere.id))!.shiftId).toBeNull();
+      expect(await storage.getOrders(restaurantId, { shiftId: null })).toEqual([]);
+      expect(await storage.getOrders(restaurantId, { shiftId: shift.id })).toHaveLength(1);
+    });
+
+    it("puts new orders in the open shift", async () => {
+      const { shift } = await storage.openShift(restaurantId, "2024-05-31", "0.00", "Meera");
+
+      expect((await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea])).shiftId).toBe(shift.id);
+      expect((await storage.createOrder(otherRestaurantId, orderOf(1, "10.00"), [tea])).shiftId).toBeNull();
+    });
+
+    it("opens one shift at a time", async () => {
+      const opened = await Promise.allSettled([
+        storage.openShift(restaurantId, "2024-05-31", "0.00", "Meera"),
+        storage.openShift(restaurantId, "2024-05-31", "0.00", "Ravi"),
+      ]);
+
+      expect(opened.filter((result) => result.status === "fulfilled")).toHaveLength(1);
+      expect(opened.find((result) => result.status === "rejected")).toMatchObject({
+        reason: new OrderConflictError("A shift is already open"),
+      });
+      expect(await storage.getShifts(restaurantId)).toHaveLength(1);
+    });
+
+    it("refuses to close a shift with open orders, or one already closed", async () => {
+      const { shift } = await storage.openShift(restaurantId, "2024-05-31", "0.00", "Meera");
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      const closing = { closingCash: "0.00" };
+
+      await expect(storage.closeShift(restaurantId, shift.id, closing, "Meera")).rejects.toMatchObject({
+        message: "Finish or cancel the open orders before closing the shift",
+        details: { openOrders: [order.id] },
+      });
+      expect(await storage.closeShift(otherRestaurantId, shift.id, closing, "Meera")).toBeUndefined();
+
+      await storage.updateOrderStatus(restaurantId, order.id, "rejected");
+      await storage.closeShift(restaurantId, shift.id, closing, "Meera");
+      await expect(storage.closeShift(restaurantId, shift.id, closing, "Meera")).rejects.toThrow(
+        "This shift is already closed",
+      );
+    });
+  });
+
+  describe("orders", () => {
+    it("creates an order with its lines in order", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(7, "13.00"), [tea, samosa]);
+
+      expect(order).toMatchObject({
+        orderNumber: 7,
+        status: "pending",
+        paymentStatus: "unpaid",
+        discountTotal: "0.00",
+        refundTotal: "0.00",
+        appliedPromotions: [],
+        shiftId: null,
+        payments: [],
+        adjustments: [],
+      });
+      expect(order.items.map((item) => [item.position, item.name, item.quantity])).toEqual([
+        [0, "Tea", 2],
+        [1, "Samosa", 1],
+      ]);
+      expect(order.items[0]).toMatchObject({ discountAmount: "0.00", notes: null, menuItemId: null });
+      expect(await storage.getOrder(restaurantId, order.id)).toEqual(order);
+    });
+
+    it("keeps orders to their own restaurant", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+
+      expect(await storage.getOrder(otherRestaurantId, order.id)).toBeUndefined();
+      expect(await storage.getOrders(otherRestaurantId)).toEqual([]);
+      expect(await storage.updateOrderStatus(otherRestaurantId, order.id, "preparing")).toBeUndefined();
+      expect(await storage.getOrderTimeline(otherRestaurantId, order.id)).toEqual([]);
+      expect(await storage.addPayments(otherRestaurantId, order.id, [{ method: "cash", amount: "10.00", reference: null }]))
+        .toBeUndefined();
+    });
+
+    it("lists the newest order first", async () => {
+      const first = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      await tick();
+      const second = await storage.createOrder(restaurantId, orderOf(2, "3.00"), [samosa]);
+
+      expect((await storage.getOrders(restaurantId)).map((order) => order.id)).toEqual([
+        second.id,
+        first.id,
+      ]);
+    });
+
+    it("records every status change on the timeline", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      await tick();
+      const updated = await storage.updateOrderStatus(restaurantId, order.id, "accepted", "Kitchen");
+
+      expect(updated).toMatchObject({ id: order.id, status: "accepted" });
+      const timeline = await storage.getOrderTimeline(restaurantId, order.id);
+      expect(timeline.map((event) => [event.fromStatus, event.toStatus, event.changedBy])).toEqual([
+        [null, "pending", null],
+        ["pending", "accepted", "Kitchen"],
+      ]);
+    });
+
+    it("refuses moves the state machine doesn't allow", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+
+      await expect(storage.updateOrderStatus(restaurantId, order.id, "ready")).rejects.toMatchObject({
+        message: 'Cannot move order from "pending" to "ready"',
+        details: { allowed: ["accepted", "rejected", "cancelled"] },
+      });
+      await expect(storage.updateOrderStatus(restaurantId, order.id, "cancelled")).rejects.toMatchObject({
+        message: "Void the order to cancel it",
+      });
+      expect((await storage.getOrder(restaurantId, order.id))!.status).toBe("pending");
+    });
+
+    it("refuses to complete an order until it is paid", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      for (const status of ["accepted", "preparing", "ready", "served"] as const) {
+        await storage.updateOrderStatus(restaurantId, order.id, status);
+      }
+      await storage.addPayments(restaurantId, order.id, [{ method: "cash", amount: "4.00", reference: null }]);
+
+      await expect(storage.updateOrderStatus(restaurantId, order.id, "completed")).rejects.toMatchObject({
+        message: "Settle the bill before completing the order",
+        details: { paymentStatus: "partially_paid" },
+      });
+    });
+
+    it("refuses to reject an order with payments", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      await storage.addPayments(restaurantId, order.id, [{ method: "cash", amount: "4.00", reference: null }]);
+
+      await expect(storage.updateOrderStatus(restaurantId, order.id, "rejected")).rejects.toMatchObject({
+        message: "This order has payments; refund it instead",
+      });
+    });
+
+    it("refuses changes once a voided order is cancelled", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      await storage.recordAdjustment(restaurantId, order.id, {
+        kind: "void",
+        reasonCode: "duplicate",
+        amount: "10.00",
+        requestedBy: "Ravi",
+      });
+
+      await expect(
+        storage.updateOrderStatus(restaurantId, order.id, "accepted"),
+      ).rejects.toBeInstanceOf(OrderConflictError);
+    });
+  });
+
+  describe("payments", () => {
+    it("tracks what has been paid", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "13.00"), [tea, samosa]);
+
+      const part = await storage.addPayments(
+        restaurantId,
+        order.id,
+        [{ method: "cash", amount: "5.00", reference: null }],
+        "Ravi",
+      );
+      expect(part).toMatchObject({ paymentStatus: "partially_paid" });
+      expect(part!.payments[0]).toMatchObject({ method: "cash", amount: "5.00", receivedBy: "Ravi", reference: null });
+
+      await tick();
+      const paid = await storage.addPayments(restaurantId, order.id, [
+        { method: "upi", amount: "3.00", reference: "UPI-1" },
+        { method: "card", amount: "5.00", reference: null },
+      ]);
+      expect(paid).toMatchObject({ paymentStatus: "paid" });
+      expect(paid!.payments.map((payment) => payment.amount).sort()).toEqual(["3.00", "5.00", "5.00"]);
+      expect(await storage.getOrder(restaurantId, order.id)).toEqual(paid);
+    });
+
+    it("refuses payments beyond what is due", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      await storage.addPayments(restaurantId, order.id, [{ method: "cash", amount: "4.00", reference: null }]);
+
+      const attempt = storage.addPayments(restaurantId, order.id, [
+        { method: "cash", amount: "4.00", reference: null },
+        { method: "card", amount: "2.50", reference: null },
+      ]);
+      await expect(attempt).rejects.toBeInstanceOf(OrderConflictError);
+      await expect(attempt).rejects.toMatchObject({
+        message: "Payments are more than the amount due",
+        details: { due: "6.00" },
+      });
+      expect((await storage.getOrder(restaurantId, order.id))!.payments).toHaveLength(1);
+    });
+
+    it("refuses payments for a closed order", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      await storage.updateOrderStatus(restaurantId, order.id, "rejected");
+
+      await expect(
+        storage.addPayments(restaurantId, order.id, [{ method: "cash", amount: "10.00", reference: null }]),
+      ).rejects.toMatchObject({ message: "Cannot take payment for a rejected order" });
+    });
+  });
+
+  describe("adjustments", () => {
+    it("voids an unpaid order", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      await tick();
+      const voided = await storage.recordAdjustment(restaurantId, order.id, {
+        kind: "void",
+        reasonCode: "duplicate",
+        amount: "10.00",
+        requestedBy: "Ravi",
+        approvedBy: "Meera",
+      });
+
+      expect(voided).toMatchObject({ status: "cancelled", refundTotal: "0.00" });
+      expect(voided!.adjustments).toEqual([
+        expect.objectContaining({ kind: "void", reasonCode: "duplicate", note: null, method: null, approvedBy: "Meera" }),
+      ]);
+      const timeline = await storage.getOrderTimeline(restaurantId, order.id);
+      expect(timeline[timeline.length - 1]).toMatchObject({
+        fromStatus: "pending",
+        toStatus: "cancelled",
+        changedBy: "Ravi",
+      });
+    });
+
+    it("refuses to void an order with payments or one already closed", async () => {
+      const paid = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      await storage.addPayments(restaurantId, paid.id, [{ method: "cash", amount: "10.00", reference: null }]);
+      const void_ = { kind: "void", reasonCode: "other", note: "Test", amount: "10.00", requestedBy: "Ravi" } as const;
+
+      await expect(storage.recordAdjustment(restaurantId, paid.id, void_)).rejects.toMatchObject({
+        message: "This order has payments; refund it instead",
+      });
+
+      const done = await storage.createOrder(restaurantId, orderOf(2, "10.00"), [tea]);
+      await storage.updateOrderStatus(restaurantId, done.id, "rejected");
+      await expect(storage.recordAdjustment(restaurantId, done.id, void_)).rejects.toBeInstanceOf(
+        OrderConflictError,
+      );
+      expect((await storage.getOrder(restaurantId, done.id))!.adjustments).toEqual([]);
+    });
+
+    it("refunds up to what has been paid", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "13.00"), [tea, samosa]);
+      await storage.addPayments(restaurantId, order.id, [{ method: "cash", amount: "13.00", reference: null }]);
+      const refund = { kind: "refund", reasonCode: "missing_item", method: "cash", requestedBy: "Ravi" } as const;
+
+      const refunded = await storage.recordAdjustment(restaurantId, order.id, { ...refund, amount: "3.00" });
+      expect(refunded).toMatchObject({ refundTotal: "3.00", status: "pending" });
+
+      const attempt = storage.recordAdjustment(restaurantId, order.id, { ...refund, amount: "10.01" });
+      await expect(attempt).rejects.toBeInstanceOf(OrderConflictError);
+      await expect(attempt).rejects.toMatchObject({
+        message: "Refund is more than was paid",
+        details: { refundable: "10.00" },
+      });
+
+      const rest = await storage.recordAdjustment(restaurantId, order.id, { ...refund, amount: "10.00" });
+      expect(rest).toMatchObject({ refundTotal: "13.00" });
+      expect(rest!.adjustments).toHaveLength(2);
+    });
+
+    it("books refunds to the open shift, even on orders from a closed one", async () => {
+      const first = await storage.openShift(restaurantId, "2024-05-31", "0.00", "Meera");
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      await storage.addPayments(restaurantId, order.id, [{ method: "cash", amount: "10.00", reference: null }]);
+      for (const status of ["accepted", "preparing", "ready", "served", "completed"] as const) {
+        await storage.updateOrderStatus(restaurantId, order.id, status);
+      }
+      await storage.closeShift(restaurantId, first.shift.id, { closingCash: "10.00" }, "Meera");
+      const refund = { kind: "refund", reasonCode: "food_quality", method: "cash", amount: "4.00", requestedBy: "Ravi" } as const;
+
+      await expect(storage.recordAdjustment(restaurantId, order.id, refund)).rejects.toMatchObject({
+        message: "Open a shift to refund an order from a closed one",
+      });
+
+      const second = await storage.openShift(restaurantId, "2024-06-01", "0.00", "Ravi");
+      const refunded = await storage.recordAdjustment(restaurantId, order.id, refund);
+
+      expect(refunded).toMatchObject({ shiftId: first.shift.id, refundTotal: "4.00" });
+      expect(refunded!.adjustments).toEqual([expect.objectContaining({ shiftId: second.shift.id })]);
+      expect(await storage.getShiftAdjustments(restaurantId, first.shift.id)).toEqual([]);
+      expect(await storage.getShiftAdjustments(restaurantId, second.shift.id)).toEqual(refunded!.adjustments);
+      expect(await storage.getShiftAdjustments(otherRestaurantId, second.shift.id)).toEqual([]);
+    });
+
+    it("brings adjustments made while no shift was open into the next shift", async () => {
+      const order = await storage.createOrder(restaurantId, orderOf(1, "10.00"), [tea]);
+      await storage.recordAdjustment(restaurantId, order.id, {
+        kind: "void",
+        reasonCode: "duplicate",
+        amount: "10.00",
+        requestedBy: "Ravi",
+      });
+
+      const { shift } = await storage.openShift(restaurantId, "2024-05-31", "0.00", "Meera");
+
+      expect(await storage.getShiftAdjustments(restaurantId, shift.id)).toEqual([
+        expect.objectContaining({ orderId: order.id, kind: "void", shiftId: shift.id }),
+      ]);
+    });
+  });
+
+  describe("analytics", () => {
+    // Orders created now; the range covers the whole day around them.
+    const range = () => ({
+      from: new Date(Date.now() - 12 * 60 * 60 * 1000),
+      to: new Date(Date.now() + 12 * 60 * 60 * 1000),
+    });
+
+    async function completedOrder(orderNumber: number, items: InsertOrderItem[], total: string) {
+      const order = await storage.createOrder(
+        restaurantId,
+        orderOf(orderNumber, total, { discountTotal: "1.00" }),
+        items,
+      );
+      await storage.addPayments(restaurantId, order.id, [{ method: "cash", amount: total, reference: null }]);
+      for (const status of ["accepted", "preparing", "ready", "served"] as const) {
+        await storage.updateOrderStatus(restaurantId, order.id, status);
+      }
+      return (await storage.updateOrderStatus(restaurantId, order.id, "completed"))!;
+    }
+
+    it("sums completed orders net of refunds", async () => {
+      const first = await completedOrder(1, [tea], "10.00");
+      await completedOrder(2, [tea, samosa], "13.00");
+      await storage.createOrder(restaurantId, orderOf(3, "99.00"), [tea]);
+      await storage.recordAdjustment(restaurantId, first.id, {
+        kind: "refund",
+        reasonCode: "long_wait",
+        amount: "2.00",
+        method: "cash",
+        requestedBy: "Ravi",
+      });
+
+      expect(await storage.getRevenueSummary(restaurantId, range())).toEqual({
+        revenue: "21.00",
+        discounts: "2.00",
+        refunds: "2.00",
+        orders: 2,
+        averageTicket: "10.50",
+      });
+      expect((await storage.getRevenueSummary(otherRestaurantId, range())).orders).toBe(0);
+    });
+
+    it("ranks items by quantity sold", async () => {
+      await completedOrder(1, [tea], "10.00");
+      await completedOrder(2, [tea, samosa], "13.00");
+
+      expect(await storage.getTopItems(restaurantId, { ...range(), limit: 5 })).toEqual([
+        { name: "Tea", quantity: 4, revenue: "20.00" },
+        { name: "Samosa", quantity: 1, revenue: "3.00" },
+      ]);
+      expect(await storage.getTopItems(restaurantId, { ...range(), limit: 1 })).toHaveLength(1);
+    });
+
+    it("buckets revenue by business day", async () => {
+      await completedOrder(1, [tea], "10.00");
+      await completedOrder(2, [samosa], "3.00");
+
+      const series = await storage.getRevenueSeries(
+        restaurantId,
+        { ...range(), bucket: "day" },
+        { timezone: "UTC", dayCutover: "00:00" },
+      );
+      const revenue = series.reduce((sum, point) => sum + Number(point.revenue), 0);
+      const orders = series.reduce((sum, point) => sum + point.orders, 0);
+
+      expect(revenue).toBe(13);
+      expect(orders).toBe(2);
+      series.forEach((point) => expect(point.bucket).toMatch(/T00:00:00\.000Z$/));
+    });
+
+    it("adds up more cents than a 32-bit integer holds", async () => {
+      const banquet: InsertOrderItem = { ...tea, name: "Banquet", quantity: 1, unitPrice: "30000000.00" };
+      await completedOrder(1, [banquet], "30000000.00");
+      await completedOrder(2, [banquet], "30000000.00");
+
+      expect(await storage.getRevenueSummary(restaurantId, range())).toMatchObject({
+        revenue: "60000000.00",
+        averageTicket: "30000000.00",
+      });
+      expect(await storage.getTopItems(restaurantId, { ...range(), limit: 1 })).toEqual([
+        { name: "Banquet", quantity: 2, revenue: "60000000.00" },
+      ]);
+      const series = await storage.getRevenueSeries(
+        restaurantId,
+        { ...range(), bucket: "month" },
+        { timezone: "UTC", dayCutover: "00:00" },
+      );
+      expect(series.reduce((sum, point) => sum + toCents(point.revenue), 0)).toBe(6_000_000_000);
+    });
+  });
+});
@@ -1,53 +1,1751 @@
-import { type Order, type InsertOrder } from "@shared/schema";
+import {
+  businessDays,
+  menuCategories,
+  menuItems,
+  modifierGroups,
+  modifierOptions,
+  orders,
+  orderItems,
+  orderAdjustments,
+  orderStatusEvents,
+  payments,
+  promotions,
+  restaurants,
+  shifts,
+  users,
+  type MenuCategory,
+  type InsertMenuCategory,
+  type UpdateMenuCategory,
+  type MenuItem,
+  type InsertMenuItem,
+  type UpdateMenuItem,
+  type ModifierGroupInput,
+  type ModifierGroupWithOptions,
+  type InsertOrder,
+  type InsertOrderItem,
+  type OrderItem,
+  type Order,
+  type OrderWithItems,
+  type OrderStatusEvent,
+  type InsertPayment,
+  type InsertOrderAdjustment,
+  type OrderAdjustment,
+  type Promotion,
+  type InsertPromotion,
+  type UpdatePromotion,
+  type BusinessDay,
+  type CurrentShift,
+  type CloseShift,
+  type Shift,
+  type Restaurant,
+  type InsertRestaurant,
+  type UpdateRestaurant,
+  type User,
+  type InsertUser,
+} from "@shared/schema";
+import {
+  ORDER_TRANSITIONS,
+  canTransition,
+  endsUnfulfilled,
+  isTerminalStatus,
+  isVoidOnly,
+  type OrderStatus,
+} from "@shared/orderStatus";
+import { DEFAULT_TAX_RATE } from "@shared/pricing";
+import { paymentStatusFor } from "@shared/payments";
+import { fromCents, lineTotalCents, toCents } from "@shared/money";
+import {
+  DEFAULT_DAY_CUTOVER,
+  DEFAULT_TIMEZONE,
+  bucketStart,
+  type BusinessDaySettings,
+} from "@shared/businessDay";
+import type {
+  AnalyticsBucket,
+  AnalyticsRange,
+  RevenuePoint,
+  RevenueSummary,
+  TopItem,
+} from "@shared/analytics";
 import { randomUUID } from "crypto";
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  getTableColumns,
+  gte,
+  inArray,
+  isNull,
+  lt,
+  sql,
+  type SQL,
+} from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { db, pool, type Database } from "./db";
 
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+// Thrown when the state of an order or shift rules out a change. Checks that
+// depend on what has been paid run inside the storage call, under the order's
+// row lock, so two tills can't both take the last payment. Routes answer it
+// with a 409 carrying the message and details.
+export class OrderConflictError extends Error {
+  constructor(
+    message: string,
+    public details: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "OrderConflictError";
+  }
+}
+
+// A status change follows the state machine, and can't touch an order whose
+// shift has closed. Cancelling goes through a void, an order with money taken
+// can't simply be rejected, and only a settled bill can be completed.
+function checkStatusChange(
+  order: Pick<Order, "status" | "paymentStatus">,
+  { hasPayments, shiftClosed }: { hasPayments: boolean; shiftClosed: boolean },
+  status: OrderStatus,
+) {
+  if (shiftClosed) {
+    throw new OrderConflictError("This order belongs to a closed shift");
+  }
+  if (isVoidOnly(status)) {
+    throw new OrderConflictError("Void the order to cancel it");
+  }
+  if (endsUnfulfilled(status) && hasPayments) {
+    throw new OrderConflictError("This order has payments; refund it instead");
+  }
+  if (!canTransition(order.status, status)) {
+    throw new OrderConflictError(`Cannot move order from "${order.status}" to "${status}"`, {
+      allowed: ORDER_TRANSITIONS[order.status],
+    });
+  }
+  if (status === "completed" && order.paymentStatus !== "paid") {
+    throw new OrderConflictError("Settle the bill before completing the order", {
+      paymentStatus: order.paymentStatus,
+    });
+  }
+}
+
+// Payments are only taken on open orders, and never beyond what is due.
+function checkPayments(
+  order: Pick<Order, "status" | "totalPrice">,
+  paidCents: number,
+  newPayments: InsertPayment[],
+) {
+  if (isTerminalStatus(order.status)) {
+    throw new OrderConflictError(`Cannot take payment for a ${order.status} order`);
+  }
+  const dueCents = toCents(order.totalPrice) - paidCents;
+  const tenderedCents = newPayments.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+  if (tenderedCents > dueCents) {
+    throw new OrderConflictError("Payments are more than the amount due", {
+      due: fromCents(Math.max(dueCents, 0)),
+    });
+  }
+}
+
+// Only an open order with nothing paid can be voided; anything else is
+// refunded, and never beyond what has been paid and not yet given back. A
+// refund on an order whose shift has closed is booked to the open shift, so
+// one has to be open.
+function checkAdjustment(
+  order: Pick<Order, "status" | "refundTotal">,
+  paidCents: number,
+  { shiftClosed, shiftOpen }: { shiftClosed: boolean; shiftOpen: boolean },
+  adjustment: InsertOrderAdjustment,
+) {
+  if (adjustment.kind === "void") {
+    if (isTerminalStatus(order.status)) {
+      throw new OrderConflictError(`Cannot void a ${order.status} order`);
+    }
+    if (paidCents > 0) {
+      throw new OrderConflictError("This order has payments; refund it instead");
+    }
+    return;
+  }
+  if (shiftClosed && !shiftOpen) {
+    throw new OrderConflictError("Open a shift to refund an order from a closed one");
+  }
+  const refundableCents = paidCents - toCents(order.refundTotal);
+  if (toCents(adjustment.amount) > refundableCents) {
+    throw new OrderConflictError("Refund is more than was paid", {
+      refundable: fromCents(Math.max(refundableCents, 0)),
+    });
+  }
+}
+
+// Closing a shift locks its orders, so every one of them has to be finished
+// (completed, cancelled or rejected) first.
+function checkShiftClose(shift: Shift, shiftOrders: Pick<Order, "id" | "status">[]) {
+  if (shift.closedAt) {
+    throw new OrderConflictError("This shift is already closed");
+  }
+  const openOrders = shiftOrders.filter((order) => !isTerminalStatus(order.status));
+  if (openOrders.length > 0) {
+    throw new OrderConflictError("Finish or cancel the open orders before closing the shift", {
+      openOrders: openOrders.map((order) => order.id),
+    });
+  }
+}
+
+// Every order method takes the restaurant it is scoped to first; an order that
+// belongs to another restaurant is reported as not found.
 export interface IStorage {
-  getOrders(): Promise<Order[]>;
-  getOrder(id: string): Promise<Order | undefined>;
-  createOrder(order: InsertOrder): Promise<Order>;
-  updateOrderStatus(id: string, status: string): Promise<Order | undefined>;
+  sessionStore: session.Store;
+
+  getUsers(restaurantId: string): Promise<User[]>;
+  getUser(id: string): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  createUser(restaurantId: string, user: InsertUser): Promise<User>;
+
+  getRestaurants(): Promise<Restaurant[]>;
+  getRestaurant(id: string): Promise<Restaurant | undefined>;
+  createRestaurant(restaurant: InsertRestaurant): Promise<Restaurant>;
+  updateRestaurant(id: string, changes: UpdateRestaurant): Promise<Restaurant | undefined>;
+
+  getMenuCategories(restaurantId: string): Promise<MenuCategory[]>;
+  createMenuCategory(restaurantId: string, category: InsertMenuCategory): Promise<MenuCategory>;
+  updateMenuCategory(
+    restaurantId: string,
+    id: string,
+    changes: UpdateMenuCategory,
+  ): Promise<MenuCategory | undefined>;
+  deleteMenuCategory(restaurantId: string, id: string): Promise<boolean>;
+
+  getMenuItems(restaurantId: string): Promise<MenuItem[]>;
+  getMenuItem(restaurantId: string, id: string): Promise<MenuItem | undefined>;
+  createMenuItem(restaurantId: string, item: InsertMenuItem): Promise<MenuItem>;
+  updateMenuItem(
+    restaurantId: string,
+    id: string,
+    changes: UpdateMenuItem,
+  ): Promise<MenuItem | undefined>;
+  deleteMenuItem(restaurantId: string, id: string): Promise<boolean>;
+
+  getModifierGroups(restaurantId: string): Promise<ModifierGroupWithOptions[]>;
+  replaceModifierGroups(
+    restaurantId: string,
+    menuItemId: string,
+    groups: ModifierGroupInput[],
+  ): Promise<ModifierGroupWithOptions[]>;
+
+  getPromotions(restaurantId: string): Promise<Promotion[]>;
+  getPromotion(restaurantId: string, id: string): Promise<Promotion | undefined>;
+  createPromotion(restaurantId: string, promotion: InsertPromotion): Promise<Promotion>;
+  updatePromotion(
+    restaurantId: string,
+    id: string,
+    changes: UpdatePromotion,
+  ): Promise<Promotion | undefined>;
+  deletePromotion(restaurantId: string, id: string): Promise<boolean>;
+
+  getCurrentShift(restaurantId: string): Promise<CurrentShift>;
+  getShift(restaurantId: string, id: string): Promise<Shift | undefined>;
+  getShifts(restaurantId: string): Promise<Shift[]>;
+  getBusinessDay(restaurantId: string, businessDate: string): Promise<BusinessDay | undefined>;
+  getOpenBusinessDay(restaurantId: string): Promise<BusinessDay | undefined>;
+  // Voids and refunds booked to the shift, whichever shift their orders are in.
+  getShiftAdjustments(restaurantId: string, shiftId: string): Promise<OrderAdjustment[]>;
+  // Opens a shift in the open business day, starting one for businessDate if
+  // there is none, and brings in orders placed and adjustments made while no
+  // shift was open.
+  // Throws OrderConflictError if a shift is open already.
+  openShift(
+    restaurantId: string,
+    businessDate: string,
+    openingFloat: string,
+    openedBy: string,
+  ): Promise<NonNullable<CurrentShift>>;
+  // Throws OrderConflictError if the shift is closed already or still has
+  // orders that aren't finished.
+  closeShift(
+    restaurantId: string,
+    id: string,
+    closing: CloseShift,
+    closedBy: string,
+  ): Promise<Shift | undefined>;
+  closeBusinessDay(
+    restaurantId: string,
+    id: string,
+    closedBy: string,
+  ): Promise<BusinessDay | undefined>;
+
+  // Newest first. shiftId narrows to the orders of one shift, or with null to
+  // the orders still waiting for a shift to open.
+  getOrders(restaurantId: string, filter?: { shiftId?: string | null }): Promise<OrderWithItems[]>;
+  getOrder(restaurantId: string, id: string): Promise<OrderWithItems | undefined>;
+  // The order joins whichever shift is open when it is stored, if any.
+  createOrder(
+    restaurantId: string,
+    order: Omit<InsertOrder, "shiftId">,
+    items: InsertOrderItem[],
+  ): Promise<OrderWithItems>;
+  // Throws OrderConflictError if the move isn't allowed from where the order
+  // is now, including completing an order that isn't paid.
+  updateOrderStatus(
+    restaurantId: string,
+    id: string,
+    status: OrderStatus,
+    changedBy?: string | null,
+  ): Promise<OrderWithItems | undefined>;
+  getOrderTimeline(restaurantId: string, orderId: string): Promise<OrderStatusEvent[]>;
+  // Records tenders against an order and brings its paymentStatus up to date.
+  // Throws OrderConflictError if the order is closed or they exceed what is due.
+  addPayments(
+    restaurantId: string,
+    orderId: string,
+    payments: InsertPayment[],
+    receivedBy?: string | null,
+  ): Promise<OrderWithItems | undefined>;
+  // Appends to the order's adjustment trail, booked to the open shift. A void
+  // also cancels the order; a refund adds to its refundTotal. Throws
+  // OrderConflictError if the order can't be voided or the refund is more than
+  // is left to give back.
+  recordAdjustment(
+    restaurantId: string,
+    orderId: string,
+    adjustment: InsertOrderAdjustment,
+  ): Promise<OrderWithItems | undefined>;
+
+  // Aggregates over completed orders created in [from, to), net of refunds.
+  // Buckets follow the restaurant's clock and business days.
+  getRevenueSeries(
+    restaurantId: string,
+    range: AnalyticsRange & { bucket: AnalyticsBucket },
+    settings: BusinessDaySettings,
+  ): Promise<RevenuePoint[]>;
+  getTopItems(restaurantId: string, range: AnalyticsRange & { limit: number }): Promise<TopItem[]>;
+  getRevenueSummary(restaurantId: string, range: AnalyticsRange): Promise<RevenueSummary>;
+}
+
+function revenueSummary(
+  orderCount: number,
+  revenueCents: number,
+  discountCents: number,
+  refundCents: number,
+): RevenueSummary {
+  return {
+    revenue: fromCents(revenueCents),
+    discounts: fromCents(discountCents),
+    refunds: fromCents(refundCents),
+    orders: orderCount,
+    averageTicket: fromCents(orderCount ? Math.round(revenueCents / orderCount) : 0),
+  };
+}
+
+function revenuePoint(bucket: Date, orderCount: number, revenueCents: number): RevenuePoint {
+  return {
+    bucket: bucket.toISOString(),
+    revenue: fromCents(revenueCents),
+    orders: orderCount,
+    averageTicket: fromCents(orderCount ? Math.round(revenueCents / orderCount) : 0),
+  };
+}
+
+// A sum in cents passes int4 at about 21 million rupees, so totals come back
+// as bigint, which the driver hands over as a string.
+function bigintSum(expression: SQL) {
+  return sql<number>`${expression}::bigint`.mapWith(Number);
 }
 
+export const DEFAULT_RESTAURANT: Restaurant = {
+  id: "res-1",
+  name: "Main Outlet",
+  serviceChargeRate: "0.00",
+  roundingIncrement: 100,
+  voidApprovalRequired: false,
+  refundApprovalLimit: null,
+  timezone: DEFAULT_TIMEZONE,
+  dayCutover: DEFAULT_DAY_CUTOVER,
+  createdAt: new Date(0),
+};
+
 export class MemStorage implements IStorage {
-  private orders: Map<string, Order>;
+  sessionStore: session.Store;
+  private users: Map<string, User>;
+  private restaurants: Map<string, Restaurant>;
+  private menuCategories: Map<string, MenuCategory>;
+  private menuItems: Map<string, MenuItem>;
+  private modifierGroups: Map<string, ModifierGroupWithOptions>;
+  private promotions: Map<string, Promotion>;
+  private businessDays: Map<string, BusinessDay>;
+  private shifts: Map<string, Shift>;
+  private orders: Map<string, OrderWithItems>;
+  private statusEvents: Map<string, OrderStatusEvent[]>;
   private orderCounter: number;
 
   constructor() {
+    this.sessionStore = new MemoryStore({ checkPeriod: 86400000 });
+    this.users = new Map();
+    this.restaurants = new Map([[DEFAULT_RESTAURANT.id, DEFAULT_RESTAURANT]]);
+    this.menuCategories = new Map();
+    this.menuItems = new Map();
+    this.modifierGroups = new Map();
+    this.promotions = new Map();
+    this.businessDays = new Map();
+    this.shifts = new Map();
     this.orders = new Map();
+    this.statusEvents = new Map();
     this.orderCounter = 1230;
   }
 
-  async getOrders(): Promise<Order[]> {
-    return Array.from(this.orders.values()).sort(
-      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  async getUsers(restaurantId: string): Promise<User[]> {
+    return Array.from(this.users.values()).filter((user) => user.restaurantId === restaurantId);
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find((user) => user.username === username);
+  }
+
+  async createUser(restaurantId: string, insertUser: InsertUser): Promise<User> {
+    const user: User = {
+      ...insertUser,
+      id: randomUUID(),
+      restaurantId,
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getRestaurants(): Promise<Restaurant[]> {
+    return Array.from(this.restaurants.values());
+  }
+
+  async getRestaurant(id: string): Promise<Restaurant | undefined> {
+    return this.restaurants.get(id);
+  }
+
+  async createRestaurant(insertRestaurant: InsertRestaurant): Promise<Restaurant> {
+    const restaurant: Restaurant = {
+      ...insertRestaurant,
+      id: randomUUID(),
+      serviceChargeRate: insertRestaurant.serviceChargeRate ?? "0.00",
+      roundingIncrement: insertRestaurant.roundingIncrement ?? 100,
+      voidApprovalRequired: insertRestaurant.voidApprovalRequired ?? false,
+      refundApprovalLimit: insertRestaurant.refundApprovalLimit ?? null,
+      timezone: insertRestaurant.timezone ?? DEFAULT_TIMEZONE,
+      dayCutover: insertRestaurant.dayCutover ?? DEFAULT_DAY_CUTOVER,
+      createdAt: new Date(),
+    };
+    this.restaurants.set(restaurant.id, restaurant);
+    return restaurant;
+  }
+
+  async updateRestaurant(id: string, changes: UpdateRestaurant): Promise<Restaurant | undefined> {
+    const restaurant = this.restaurants.get(id);
+    if (!restaurant) return undefined;
+    const updated = { ...restaurant, ...changes };
+    this.restaurants.set(id, updated);
+    return updated;
+  }
+
+  async getMenuCategories(restaurantId: string): Promise<MenuCategory[]> {
+    return Array.from(this.menuCategories.values())
+      .filter((category) => category.restaurantId === restaurantId)
+      .sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+  }
+
+  async createMenuCategory(
+    restaurantId: string,
+    insertCategory: InsertMenuCategory,
+  ): Promise<MenuCategory> {
+    const category: MenuCategory = {
+      ...insertCategory,
+      id: randomUUID(),
+      restaurantId,
+      position: insertCategory.position ?? 0,
+      createdAt: new Date(),
+    };
+    this.menuCategories.set(category.id, category);
+    return category;
+  }
+
+  async updateMenuCategory(
+    restaurantId: string,
+    id: string,
+    changes: UpdateMenuCategory,
+  ): Promise<MenuCategory | undefined> {
+    const category = this.menuCategories.get(id);
+    if (category?.restaurantId !== restaurantId) return undefined;
+    const updated = { ...category, ...changes };
+    this.menuCategories.set(id, updated);
+    return updated;
+  }
+
+  async deleteMenuCategory(restaurantId: string, id: string): Promise<boolean> {
+    if (this.menuCategories.get(id)?.restaurantId !== restaurantId) return false;
+    return this.menuCategories.delete(id);
+  }
+
+  async getMenuItems(restaurantId: string): Promise<MenuItem[]> {
+    return Array.from(this.menuItems.values())
+      .filter((item) => item.restaurantId === restaurantId)
+      .sort((a, b) => a.position - b.position || a.name.localeCompare(b.name));
+  }
+
+  async getMenuItem(restaurantId: string, id: string): Promise<MenuItem | undefined> {
+    const item = this.menuItems.get(id);
+    return item?.restaurantId === restaurantId ? item : undefined;
+  }
+
+  async createMenuItem(restaurantId: string, insertItem: InsertMenuItem): Promise<MenuItem> {
+    const item: MenuItem = {
+      ...insertItem,
+      id: randomUUID(),
+      restaurantId,
+      description: insertItem.description ?? null,
+      taxRate: insertItem.taxRate ?? DEFAULT_TAX_RATE,
+      isAvailable: insertItem.isAvailable ?? true,
+      position: insertItem.position ?? 0,
+      createdAt: new Date(),
+    };
+    this.menuItems.set(item.id, item);
+    return item;
+  }
+
+  async updateMenuItem(
+    restaurantId: string,
+    id: string,
+    changes: UpdateMenuItem,
+  ): Promise<MenuItem | undefined> {
+    const item = await this.getMenuItem(restaurantId, id);
+    if (!item) return undefined;
+    const updated = { ...item, ...changes };
+    this.menuItems.set(id, updated);
+    return updated;
+  }
+
+  async deleteMenuItem(restaurantId: string, id: string): Promise<boolean> {
+    if (!(await this.getMenuItem(restaurantId, id))) return false;
+    return this.menuItems.delete(id);
+  }
+
+  async getModifierGroups(restaurantId: string): Promise<ModifierGroupWithOptions[]> {
+    const itemIds = new Set((await this.getMenuItems(restaurantId)).map((item) => item.id));
+    return Array.from(this.modifierGroups.values())
+      .filter((group) => itemIds.has(group.menuItemId))
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async replaceModifierGroups(
+    restaurantId: string,
+    menuItemId: string,
+    groups: ModifierGroupInput[],
+  ): Promise<ModifierGroupWithOptions[]> {
+    if (!(await this.getMenuItem(restaurantId, menuItemId))) return [];
+
+    for (const [id, group] of Array.from(this.modifierGroups.entries())) {
+      if (group.menuItemId === menuItemId) this.modifierGroups.delete(id);
+    }
+
+    return groups.map(({ options, ...group }, position) => {
+      const id = randomUUID();
+      const created: ModifierGroupWithOptions = {
+        ...group,
+        id,
+        menuItemId,
+        position,
+        options: options.map((option, optionPosition) => ({
+          ...option,
+          id: randomUUID(),
+          groupId: id,
+          position: optionPosition,
+        })),
+      };
+      this.modifierGroups.set(id, created);
+      return created;
+    });
+  }
+
+  async getPromotions(restaurantId: string): Promise<Promotion[]> {
+    return Array.from(this.promotions.values())
+      .filter((promotion) => promotion.restaurantId === restaurantId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPromotion(restaurantId: string, id: string): Promise<Promotion | undefined> {
+    const promotion = this.promotions.get(id);
+    return promotion?.restaurantId === restaurantId ? promotion : undefined;
+  }
+
+  async createPromotion(restaurantId: string, insertPromotion: InsertPromotion): Promise<Promotion> {
+    const promotion: Promotion = {
+      ...insertPromotion,
+      id: randomUUID(),
+      restaurantId,
+      code: insertPromotion.code ?? null,
+      value: insertPromotion.value ?? "0.00",
+      menuItemId: insertPromotion.menuItemId ?? null,
+      buyQuantity: insertPromotion.buyQuantity ?? null,
+      getQuantity: insertPromotion.getQuantity ?? null,
+      startsAt: insertPromotion.startsAt ?? null,
+      endsAt: insertPromotion.endsAt ?? null,
+      dailyStartTime: insertPromotion.dailyStartTime ?? null,
+      dailyEndTime: insertPromotion.dailyEndTime ?? null,
+      isActive: insertPromotion.isActive ?? true,
+      createdAt: new Date(),
+    };
+    this.promotions.set(promotion.id, promotion);
+    return promotion;
+  }
+
+  async updatePromotion(
+    restaurantId: string,
+    id: string,
+    changes: UpdatePromotion,
+  ): Promise<Promotion | undefined> {
+    const promotion = await this.getPromotion(restaurantId, id);
+    if (!promotion) return undefined;
+    const updated = { ...promotion, ...changes };
+    this.promotions.set(id, updated);
+    return updated;
+  }
+
+  async deletePromotion(restaurantId: string, id: string): Promise<boolean> {
+    if (!(await this.getPromotion(restaurantId, id))) return false;
+    return this.promotions.delete(id);
+  }
+
+  async getCurrentShift(restaurantId: string): Promise<CurrentShift> {
+    const shift = Array.from(this.shifts.values()).find(
+      (shift) => shift.restaurantId === restaurantId && !shift.closedAt,
+    );
+    return shift ? { shift, businessDay: this.businessDays.get(shift.businessDayId)! } : null;
+  }
+
+  async getShift(restaurantId: string, id: string): Promise<Shift | undefined> {
+    const shift = this.shifts.get(id);
+    return shift?.restaurantId === restaurantId ? shift : undefined;
+  }
+
+  async getShifts(restaurantId: string): Promise<Shift[]> {
+    return Array.from(this.shifts.values())
+      .filter((shift) => shift.restaurantId === restaurantId)
+      .sort((a, b) => b.openedAt.getTime() - a.openedAt.getTime());
+  }
+
+  async getBusinessDay(
+    restaurantId: string,
+    businessDate: string,
+  ): Promise<BusinessDay | undefined> {
+    return Array.from(this.businessDays.values()).find(
+      (day) => day.restaurantId === restaurantId && day.businessDate === businessDate,
+    );
+  }
+
+  async getOpenBusinessDay(restaurantId: string): Promise<BusinessDay | undefined> {
+    return Array.from(this.businessDays.values()).find(
+      (day) => day.restaurantId === restaurantId && !day.closedAt,
+    );
+  }
+
+  async getShiftAdjustments(restaurantId: string, shiftId: string): Promise<OrderAdjustment[]> {
+    return Array.from(this.orders.values())
+      .filter((order) => order.restaurantId === restaurantId)
+      .flatMap((order) => order.adjustments)
+      .filter((adjustment) => adjustment.shiftId === shiftId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async openShift(
+    restaurantId: string,
+    businessDate: string,
+    openingFloat: string,
+    openedBy: string,
+  ): Promise<NonNullable<CurrentShift>> {
+    // No awaits from the check to the writes, so two calls can't interleave.
+    const shifts = Array.from(this.shifts.values());
+    if (shifts.some((shift) => shift.restaurantId === restaurantId && !shift.closedAt)) {
+      throw new OrderConflictError("A shift is already open");
+    }
+
+    let businessDay = Array.from(this.businessDays.values()).find(
+      (day) => day.restaurantId === restaurantId && !day.closedAt,
+    );
+    if (!businessDay) {
+      businessDay = {
+        id: randomUUID(),
+        restaurantId,
+        businessDate,
+        openedAt: new Date(),
+        closedAt: null,
+        closedBy: null,
+      };
+      this.businessDays.set(businessDay.id, businessDay);
+    }
+
+    const shift: Shift = {
+      id: randomUUID(),
+      restaurantId,
+      businessDayId: businessDay.id,
+      openedBy,
+      openingFloat,
+      openedAt: new Date(),
+      closedBy: null,
+      closingCash: null,
+      closedAt: null,
+      notes: null,
+    };
+    this.shifts.set(shift.id, shift);
+
+    this.orders.forEach((order, id) => {
+      if (order.restaurantId !== restaurantId) return;
+      this.orders.set(id, {
+        ...order,
+        shiftId: order.shiftId ?? shift.id,
+        adjustments: order.adjustments.map((adjustment) => ({
+          ...adjustment,
+          shiftId: adjustment.shiftId ?? shift.id,
+        })),
+      });
+    });
+    return { shift, businessDay };
+  }
+
+  async closeShift(
+    restaurantId: string,
+    id: string,
+    { closingCash, notes }: CloseShift,
+    closedBy: string,
+  ): Promise<Shift | undefined> {
+    const shift = this.shifts.get(id);
+    if (shift?.restaurantId !== restaurantId) return undefined;
+    checkShiftClose(
+      shift,
+      Array.from(this.orders.values()).filter((order) => order.shiftId === id),
     );
+    const closed = { ...shift, closingCash, notes: notes ?? null, closedBy, closedAt: new Date() };
+    this.shifts.set(id, closed);
+    return closed;
+  }
+
+  async closeBusinessDay(
+    restaurantId: string,
+    id: string,
+    closedBy: string,
+  ): Promise<BusinessDay | undefined> {
+    const day = this.businessDays.get(id);
+    if (day?.restaurantId !== restaurantId) return undefined;
+    const closed = { ...day, closedBy, closedAt: new Date() };
+    this.businessDays.set(id, closed);
+    return closed;
   }
 
-  async getOrder(id: string): Promise<Order | undefined> {
-    return this.orders.get(id);
+  async getOrders(
+    restaurantId: string,
+    { shiftId }: { shiftId?: string | null } = {},
+  ): Promise<OrderWithItems[]> {
+    return Array.from(this.orders.values())
+      .filter((order) => order.restaurantId === restaurantId)
+      .filter((order) => shiftId === undefined || order.shiftId === shiftId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
-  async createOrder(insertOrder: InsertOrder): Promise<Order> {
+  async getOrder(restaurantId: string, id: string): Promise<OrderWithItems | undefined> {
+    const order = this.orders.get(id);
+    return order?.restaurantId === restaurantId ? order : undefined;
+  }
+
+  async createOrder(
+    restaurantId: string,
+    insertOrder: Omit<InsertOrder, "shiftId">,
+    items: InsertOrderItem[],
+  ): Promise<OrderWithItems> {
     const id = randomUUID();
-    const order: Order = {
+    const shift = Array.from(this.shifts.values()).find(
+      (shift) => shift.restaurantId === restaurantId && !shift.closedAt,
+    );
+    const order: OrderWithItems = {
       ...insertOrder,
       id,
+      restaurantId,
       status: insertOrder.status || "pending",
+      discountTotal: insertOrder.discountTotal ?? "0.00",
+      taxTotal: insertOrder.taxTotal ?? "0.00",
+      serviceCharge: insertOrder.serviceCharge ?? "0.00",
+      roundingAdjustment: insertOrder.roundingAdjustment ?? "0.00",
+      appliedPromotions: insertOrder.appliedPromotions ?? [],
+      paymentStatus: insertOrder.paymentStatus ?? "unpaid",
+      refundTotal: insertOrder.refundTotal ?? "0.00",
+      shiftId: shift?.id ?? null,
       createdAt: new Date(),
+      items: items.map((item, position) => ({
+        ...item,
+        id: randomUUID(),
+        orderId: id,
+        position,
+        menuItemId: item.menuItemId ?? null,
+        modifiers: item.modifiers ?? [],
+        discountAmount: item.discountAmount ?? "0.00",
+        taxAmount: item.taxAmount ?? "0.00",
+        notes: item.notes ?? null,
+      })),
+      payments: [],
+      adjustments: [],
     };
     this.orders.set(id, order);
+    this.recordStatusEvent(id, null, order.status, null, order.createdAt);
     return order;
   }
 
-  async updateOrderStatus(id: string, status: string): Promise<Order | undefined> {
-    const order = this.orders.get(id);
-    if (order) {
-      const updatedOrder = { ...order, status };
-      this.orders.set(id, updatedOrder);
-      return updatedOrder;
+  async updateOrderStatus(
+    restaurantId: string,
+    id: string,
+    status: OrderStatus,
+    changedBy: string | null = null,
+  ): Promise<OrderWithItems | undefined> {
+    const order = await this.getOrder(restaurantId, id);
+    if (!order) return undefined;
+    checkStatusChange(
+      order,
+      {
+        hasPayments: order.payments.length > 0,
+        shiftClosed: !!(order.shiftId && this.shifts.get(order.shiftId)?.closedAt),
+      },
+      status,
+    );
+
+    const updatedOrder = { ...order, status };
+    this.orders.set(id, updatedOrder);
+    this.recordStatusEvent(id, order.status, status, changedBy, new Date());
+    return updatedOrder;
+  }
+
+  async getOrderTimeline(restaurantId: string, orderId: string): Promise<OrderStatusEvent[]> {
+    if (!(await this.getOrder(restaurantId, orderId))) return [];
+    return [...(this.statusEvents.get(orderId) ?? [])];
+  }
+
+  async addPayments(
+    restaurantId: string,
+    orderId: string,
+    newPayments: InsertPayment[],
+    receivedBy: string | null = null,
+  ): Promise<OrderWithItems | undefined> {
+    const order = await this.getOrder(restaurantId, orderId);
+    if (!order) return undefined;
+    checkPayments(
+      order,
+      order.payments.reduce((sum, payment) => sum + toCents(payment.amount), 0),
+      newPayments,
+    );
+
+    const recorded = [
+      ...order.payments,
+      ...newPayments.map((payment) => ({
+        ...payment,
+        id: randomUUID(),
+        orderId,
+        reference: payment.reference || null,
+        receivedBy,
+        createdAt: new Date(),
+      })),
+    ];
+    const paidCents = recorded.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+    const updatedOrder: OrderWithItems = {
+      ...order,
+      payments: recorded,
+      paymentStatus: paymentStatusFor(toCents(order.totalPrice), paidCents),
+    };
+    this.orders.set(orderId, updatedOrder);
+    return updatedOrder;
+  }
+
+  async recordAdjustment(
+    restaurantId: string,
+    orderId: string,
+    insertAdjustment: InsertOrderAdjustment,
+  ): Promise<OrderWithItems | undefined> {
+    const order = await this.getOrder(restaurantId, orderId);
+    if (!order) return undefined;
+    const open = Array.from(this.shifts.values()).find(
+      (shift) => shift.restaurantId === restaurantId && !shift.closedAt,
+    );
+    checkAdjustment(
+      order,
+      order.payments.reduce((sum, payment) => sum + toCents(payment.amount), 0),
+      {
+        shiftClosed: !!(order.shiftId && this.shifts.get(order.shiftId)?.closedAt),
+        shiftOpen: !!open,
+      },
+      insertAdjustment,
+    );
+
+    const adjustment = {
+      ...insertAdjustment,
+      id: randomUUID(),
+      orderId,
+      shiftId: open?.id ?? null,
+      note: insertAdjustment.note ?? null,
+      method: insertAdjustment.method ?? null,
+      approvedBy: insertAdjustment.approvedBy ?? null,
+      createdAt: new Date(),
+    };
+    const updatedOrder: OrderWithItems = {
+      ...order,
+      adjustments: [...order.adjustments, adjustment],
+    };
+
+    if (adjustment.kind === "void") {
+      updatedOrder.status = "cancelled";
+      this.recordStatusEvent(
+        orderId,
+        order.status,
+        "cancelled",
+        adjustment.requestedBy,
+        adjustment.createdAt,
+      );
+    } else {
+      updatedOrder.refundTotal = fromCents(
+        toCents(order.refundTotal) + toCents(adjustment.amount),
+      );
+    }
+
+    this.orders.set(orderId, updatedOrder);
+    return updatedOrder;
+  }
+
+  async getRevenueSeries(
+    restaurantId: string,
+    { from, to, bucket }: AnalyticsRange & { bucket: AnalyticsBucket },
+    settings: BusinessDaySettings,
+  ): Promise<RevenuePoint[]> {
+    const buckets = new Map<number, { orders: number; revenueCents: number }>();
+    this.completedOrdersIn(restaurantId, { from, to }).forEach((order) => {
+      const start = bucketStart(order.createdAt, bucket, settings).getTime();
+      const totals = buckets.get(start) ?? { orders: 0, revenueCents: 0 };
+      totals.orders += 1;
+      totals.revenueCents += toCents(order.totalPrice) - toCents(order.refundTotal);
+      buckets.set(start, totals);
+    });
+    return Array.from(buckets.keys())
+      .sort((a, b) => a - b)
+      .map((start) => {
+        const totals = buckets.get(start)!;
+        return revenuePoint(new Date(start), totals.orders, totals.revenueCents);
+      });
+  }
+
+  async getTopItems(
+    restaurantId: string,
+    { from, to, limit }: AnalyticsRange & { limit: number },
+  ): Promise<TopItem[]> {
+    const items = new Map<string, { quantity: number; revenueCents: number }>();
+    this.completedOrdersIn(restaurantId, { from, to }).forEach((order) =>
+      order.items.forEach((item) => {
+        const totals = items.get(item.name) ?? { quantity: 0, revenueCents: 0 };
+        totals.quantity += item.quantity;
+        totals.revenueCents += lineTotalCents(item) - toCents(item.discountAmount);
+        items.set(item.name, totals);
+      }),
+    );
+    return Array.from(items.keys())
+      .map((name) => {
+        const totals = items.get(name)!;
+        return { name, quantity: totals.quantity, revenue: fromCents(totals.revenueCents) };
+      })
+      .sort((a, b) => b.quantity - a.quantity || toCents(b.revenue) - toCents(a.revenue))
+      .slice(0, limit);
+  }
+
+  async getRevenueSummary(restaurantId: string, range: AnalyticsRange): Promise<RevenueSummary> {
+    const completed = this.completedOrdersIn(restaurantId, range);
+    const sum = (amount: (order: OrderWithItems) => string) =>
+      completed.reduce((total, order) => total + toCents(amount(order)), 0);
+    const refundCents = sum((order) => order.refundTotal);
+    return revenueSummary(
+      completed.length,
+      sum((order) => order.totalPrice) - refundCents,
+      sum((order) => order.discountTotal),
+      refundCents,
+    );
+  }
+
+  private completedOrdersIn(restaurantId: string, { from, to }: AnalyticsRange) {
+    return Array.from(this.orders.values()).filter(
+      (order) =>
+        order.restaurantId === restaurantId &&
+        order.status === "completed" &&
+        order.createdAt >= from &&
+        order.createdAt < to,
+    );
+  }
+
+  private recordStatusEvent(
+    orderId: string,
+    fromStatus: OrderStatus | null,
+    toStatus: OrderStatus,
+    changedBy: string | null,
+    changedAt: Date,
+  ) {
+    const events = this.statusEvents.get(orderId) ?? [];
+    events.push({ id: randomUUID(), orderId, fromStatus, toStatus, changedBy, changedAt });
+    this.statusEvents.set(orderId, events);
+  }
+}
+
+// Loads an order with its lines and payments in position/arrival order.
+const orderRelations = {
+  items: { orderBy: asc(orderItems.position) },
+  payments: { orderBy: asc(payments.createdAt) },
+  adjustments: { orderBy: asc(orderAdjustments.createdAt) },
+} as const;
+
+// Relational queries build the nested rows as JSON, where numeric columns
+// come back as numbers (5 rather than "5.00"). Everywhere else amounts are
+// decimal strings, so they are put back into that form.
+function decimal(value: string | number): string {
+  return fromCents(toCents(value));
+}
+
+function withDecimals(order: OrderWithItems): OrderWithItems {
+  return {
+    ...order,
+    items: order.items.map((item) => ({
+      ...item,
+      unitPrice: decimal(item.unitPrice),
+      taxRate: decimal(item.taxRate),
+      discountAmount: decimal(item.discountAmount),
+      taxAmount: decimal(item.taxAmount),
+    })),
+    payments: order.payments.map((payment) => ({ ...payment, amount: decimal(payment.amount) })),
+    adjustments: order.adjustments.map((adjustment) => ({
+      ...adjustment,
+      amount: decimal(adjustment.amount),
+    })),
+  };
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(
+    private db: Database,
+    public sessionStore: session.Store,
+  ) {}
+
+  async getUsers(restaurantId: string): Promise<User[]> {
+    return this.db
+      .select()
+      .from(users)
+      .where(eq(users.restaurantId, restaurantId))
+      .orderBy(asc(users.createdAt));
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user || undefined;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user || undefined;
+  }
+
+  async createUser(restaurantId: string, insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db
+      .insert(users)
+      .values({ ...insertUser, restaurantId })
+      .returning();
+    return user;
+  }
+
+  async getRestaurants(): Promise<Restaurant[]> {
+    return this.db.select().from(restaurants).orderBy(asc(restaurants.createdAt));
+  }
+
+  async getRestaurant(id: string): Promise<Restaurant | undefined> {
+    const [restaurant] = await this.db.select().from(restaurants).where(eq(restaurants.id, id));
+    return restaurant || undefined;
+  }
+
+  async createRestaurant(insertRestaurant: InsertRestaurant): Promise<Restaurant> {
+    const [restaurant] = await this.db.insert(restaurants).values(insertRestaurant).returning();
+    return restaurant;
+  }
+
+  async updateRestaurant(id: string, changes: UpdateRestaurant): Promise<Restaurant | undefined> {
+    const [restaurant] = await this.db
+      .update(restaurants)
+      .set(changes)
+      .where(eq(restaurants.id, id))
+      .returning();
+    return restaurant || undefined;
+  }
+
+  async getMenuCategories(restaurantId: string): Promise<MenuCategory[]> {
+    return this.db
+      .select()
+      .from(menuCategories)
+      .where(eq(menuCategories.restaurantId, restaurantId))
+      .orderBy(asc(menuCategories.position), asc(menuCategories.name));
+  }
+
+  async createMenuCategory(
+    restaurantId: string,
+    insertCategory: InsertMenuCategory,
+  ): Promise<MenuCategory> {
+    const [category] = await this.db
+      .insert(menuCategories)
+      .values({ ...insertCategory, restaurantId })
+      .returning();
+    return category;
+  }
+
+  async updateMenuCategory(
+    restaurantId: string,
+    id: string,
+    changes: UpdateMenuCategory,
+  ): Promise<MenuCategory | undefined> {
+    const [category] = await this.db
+      .update(menuCategories)
+      .set(changes)
+      .where(and(eq(menuCategories.id, id), eq(menuCategories.restaurantId, restaurantId)))
+      .returning();
+    return category || undefined;
+  }
+
+  async deleteMenuCategory(restaurantId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(menuCategories)
+      .where(and(eq(menuCategories.id, id), eq(menuCategories.restaurantId, restaurantId)))
+      .returning({ id: menuCategories.id });
+    return deleted.length > 0;
+  }
+
+  async getMenuItems(restaurantId: string): Promise<MenuItem[]> {
+    return this.db
+      .select()
+      .from(menuItems)
+      .where(eq(menuItems.restaurantId, restaurantId))
+      .orderBy(asc(menuItems.position), asc(menuItems.name));
+  }
+
+  async getMenuItem(restaurantId: string, id: string): Promise<MenuItem | undefined> {
+    const [item] = await this.db
+      .select()
+      .from(menuItems)
+      .where(and(eq(menuItems.id, id), eq(menuItems.restaurantId, restaurantId)));
+    return item || undefined;
+  }
+
+  async createMenuItem(restaurantId: string, insertItem: InsertMenuItem): Promise<MenuItem> {
+    const [item] = await this.db
+      .insert(menuItems)
+      .values({ ...insertItem, restaurantId })
+      .returning();
+    return item;
+  }
+
+  async updateMenuItem(
+    restaurantId: string,
+    id: string,
+    changes: UpdateMenuItem,
+  ): Promise<MenuItem | undefined> {
+    const [item] = await this.db
+      .update(menuItems)
+      .set(changes)
+      .where(and(eq(menuItems.id, id), eq(menuItems.restaurantId, restaurantId)))
+      .returning();
+    return item || undefined;
+  }
+
+  async deleteMenuItem(restaurantId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(menuItems)
+      .where(and(eq(menuItems.id, id), eq(menuItems.restaurantId, restaurantId)))
+      .returning({ id: menuItems.id });
+    return deleted.length > 0;
+  }
+
+  async getModifierGroups(restaurantId: string): Promise<ModifierGroupWithOptions[]> {
+    const groups = await this.db.query.modifierGroups.findMany({
+      where: inArray(
+        modifierGroups.menuItemId,
+        this.db
+          .select({ id: menuItems.id })
+          .from(menuItems)
+          .where(eq(menuItems.restaurantId, restaurantId)),
+      ),
+      orderBy: asc(modifierGroups.position),
+      with: { options: { orderBy: asc(modifierOptions.position) } },
+    });
+    return groups.map((group) => ({
+      ...group,
+      options: group.options.map((option) => ({ ...option, priceDelta: decimal(option.priceDelta) })),
+    }));
+  }
+
+  async replaceModifierGroups(
+    restaurantId: string,
+    menuItemId: string,
+    groups: ModifierGroupInput[],
+  ): Promise<ModifierGroupWithOptions[]> {
+    return this.db.transaction(async (tx) => {
+      const [item] = await tx
+        .select({ id: menuItems.id })
+        .from(menuItems)
+        .where(and(eq(menuItems.id, menuItemId), eq(menuItems.restaurantId, restaurantId)));
+      if (!item) return [];
+
+      await tx.delete(modifierGroups).where(eq(modifierGroups.menuItemId, menuItemId));
+
+      const created: ModifierGroupWithOptions[] = [];
+      for (let position = 0; position < groups.length; position++) {
+        const { options, ...group } = groups[position];
+        const [inserted] = await tx
+          .insert(modifierGroups)
+          .values({ ...group, menuItemId, position })
+          .returning();
+        const insertedOptions = await tx
+          .insert(modifierOptions)
+          .values(options.map((option, optionPosition) => ({
+            ...option,
+            groupId: inserted.id,
+            position: optionPosition,
+          })))
+          .returning();
+        created.push({ ...inserted, options: insertedOptions });
+      }
+      return created;
+    });
+  }
+
+  async getPromotions(restaurantId: string): Promise<Promotion[]> {
+    return this.db
+      .select()
+      .from(promotions)
+      .where(eq(promotions.restaurantId, restaurantId))
+      .orderBy(asc(promotions.name));
+  }
+
+  async getPromotion(restaurantId: string, id: string): Promise<Promotion | undefined> {
+    const [promotion] = await this.db
+      .select()
+      .from(promotions)
+      .where(and(eq(promotions.id, id), eq(promotions.restaurantId, restaurantId)));
+    return promotion || undefined;
+  }
+
+  async createPromotion(restaurantId: string, insertPromotion: InsertPromotion): Promise<Promotion> {
+    const [promotion] = await this.db
+      .insert(promotions)
+      .values({ ...insertPromotion, restaurantId })
+      .returning();
+    return promotion;
+  }
+
+  async updatePromotion(
+    restaurantId: string,
+    id: string,
+    changes: UpdatePromotion,
+  ): Promise<Promotion | undefined> {
+    const [promotion] = await this.db
+      .update(promotions)
+      .set(changes)
+      .where(and(eq(promotions.id, id), eq(promotions.restaurantId, restaurantId)))
+      .returning();
+    return promotion || undefined;
+  }
+
+  async deletePromotion(restaurantId: string, id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(promotions)
+      .where(and(eq(promotions.id, id), eq(promotions.restaurantId, restaurantId)))
+      .returning({ id: promotions.id });
+    return deleted.length > 0;
+  }
+
+  async getCurrentShift(restaurantId: string): Promise<CurrentShift> {
+    const [current] = await this.db
+      .select({ shift: shifts, businessDay: businessDays })
+      .from(shifts)
+      .innerJoin(businessDays, eq(businessDays.id, shifts.businessDayId))
+      .where(and(eq(shifts.restaurantId, restaurantId), isNull(shifts.closedAt)));
+    return current ?? null;
+  }
+
+  async getShift(restaurantId: string, id: string): Promise<Shift | undefined> {
+    const [shift] = await this.db
+      .select()
+      .from(shifts)
+      .where(and(eq(shifts.id, id), eq(shifts.restaurantId, restaurantId)));
+    return shift || undefined;
+  }
+
+  async getShifts(restaurantId: string): Promise<Shift[]> {
+    return this.db
+      .select()
+      .from(shifts)
+      .where(eq(shifts.restaurantId, restaurantId))
+      .orderBy(desc(shifts.openedAt));
+  }
+
+  async getBusinessDay(
+    restaurantId: string,
+    businessDate: string,
+  ): Promise<BusinessDay | undefined> {
+    const [day] = await this.db
+      .select()
+      .from(businessDays)
+      .where(
+        and(eq(businessDays.restaurantId, restaurantId), eq(businessDays.businessDate, businessDate)),
+      );
+    return day || undefined;
+  }
+
+  async getOpenBusinessDay(restaurantId: string): Promise<BusinessDay | undefined> {
+    const [day] = await this.db
+      .select()
+      .from(businessDays)
+      .where(and(eq(businessDays.restaurantId, restaurantId), isNull(businessDays.closedAt)));
+    return day || undefined;
+  }
+
+  async getShiftAdjustments(restaurantId: string, shiftId: string): Promise<OrderAdjustment[]> {
+    return this.db
+      .select(getTableColumns(orderAdjustments))
+      .from(orderAdjustments)
+      .innerJoin(orders, eq(orders.id, orderAdjustments.orderId))
+      .where(and(eq(orderAdjustments.shiftId, shiftId), eq(orders.restaurantId, restaurantId)))
+      .orderBy(asc(orderAdjustments.createdAt));
+  }
+
+  async openShift(
+    restaurantId: string,
+    businessDate: string,
+    openingFloat: string,
+    openedBy: string,
+  ): Promise<NonNullable<CurrentShift>> {
+    // Opening and closing shifts lock the restaurant's row, and new orders
+    // hold it shared, so no two shifts open side by side and no order lands
+    // in a shift that is closing.
+    return this.db.transaction(async (tx) => {
+      await tx
+        .select({ id: restaurants.id })
+        .from(restaurants)
+        .where(eq(restaurants.id, restaurantId))
+        .for("update");
+      const [open] = await tx
+        .select({ id: shifts.id })
+        .from(shifts)
+        .where(and(eq(shifts.restaurantId, restaurantId), isNull(shifts.closedAt)));
+      if (open) throw new OrderConflictError("A shift is already open");
+
+      let [businessDay] = await tx
+        .select()
+        .from(businessDays)
+        .where(and(eq(businessDays.restaurantId, restaurantId), isNull(businessDays.closedAt)));
+      if (!businessDay) {
+        [businessDay] = await tx
+          .insert(businessDays)
+          .values({ restaurantId, businessDate })
+          .returning();
+      }
+
+      const [shift] = await tx
+        .insert(shifts)
+        .values({ restaurantId, businessDayId: businessDay.id, openingFloat, openedBy })
+        .returning();
+      await tx
+        .update(orders)
+        .set({ shiftId: shift.id })
+        .where(and(eq(orders.restaurantId, restaurantId), isNull(orders.shiftId)));
+      await tx
+        .update(orderAdjustments)
+        .set({ shiftId: shift.id })
+        .where(
+          and(
+            isNull(orderAdjustments.shiftId),
+            inArray(
+              orderAdjustments.orderId,
+              tx.select({ id: orders.id }).from(orders).where(eq(orders.restaurantId, restaurantId)),
+            ),
+          ),
+        );
+      return { shift, businessDay };
+    });
+  }
+
+  async closeShift(
+    restaurantId: string,
+    id: string,
+    { closingCash, notes }: CloseShift,
+    closedBy: string,
+  ): Promise<Shift | undefined> {
+    return this.db.transaction(async (tx) => {
+      await tx
+        .select({ id: restaurants.id })
+        .from(restaurants)
+        .where(eq(restaurants.id, restaurantId))
+        .for("update");
+      const [existing] = await tx
+        .select()
+        .from(shifts)
+        .where(and(eq(shifts.id, id), eq(shifts.restaurantId, restaurantId)));
+      if (!existing) return undefined;
+      checkShiftClose(
+        existing,
+        await tx
+          .select({ id: orders.id, status: orders.status })
+          .from(orders)
+          .where(eq(orders.shiftId, id)),
+      );
+
+      const [shift] = await tx
+        .update(shifts)
+        .set({ closingCash, notes, closedBy, closedAt: new Date() })
+        .where(eq(shifts.id, id))
+        .returning();
+      return shift;
+    });
+  }
+
+  async closeBusinessDay(
+    restaurantId: string,
+    id: string,
+    closedBy: string,
+  ): Promise<BusinessDay | undefined> {
+    const [day] = await this.db
+      .update(businessDays)
+      .set({ closedBy, closedAt: new Date() })
+      .where(and(eq(businessDays.id, id), eq(businessDays.restaurantId, restaurantId)))
+      .returning();
+    return day || undefined;
+  }
+
+  async getOrders(
+    restaurantId: string,
+    { shiftId }: { shiftId?: string | null } = {},
+  ): Promise<OrderWithItems[]> {
+    const found = await this.db.query.orders.findMany({
+      where: and(
+        eq(orders.restaurantId, restaurantId),
+        shiftId === undefined
+          ? undefined
+          : shiftId === null
+            ? isNull(orders.shiftId)
+            : eq(orders.shiftId, shiftId),
+      ),
+      orderBy: desc(orders.createdAt),
+      with: orderRelations,
+    });
+    return found.map(withDecimals);
+  }
+
+  async getOrder(restaurantId: string, id: string): Promise<OrderWithItems | undefined> {
+    const order = await this.db.query.orders.findFirst({
+      where: and(eq(orders.id, id), eq(orders.restaurantId, restaurantId)),
+      with: orderRelations,
+    });
+    return order && withDecimals(order);
+  }
+
+  async createOrder(
+    restaurantId: string,
+    insertOrder: Omit<InsertOrder, "shiftId">,
+    items: InsertOrderItem[],
+  ): Promise<OrderWithItems> {
+    return this.db.transaction(async (tx) => {
+      // Shared, so orders don't wait on each other, only on a shift opening
+      // or closing.
+      await tx
+        .select({ id: restaurants.id })
+        .from(restaurants)
+        .where(eq(restaurants.id, restaurantId))
+        .for("share");
+      const [open] = await tx
+        .select({ id: shifts.id })
+        .from(shifts)
+        .where(and(eq(shifts.restaurantId, restaurantId), isNull(shifts.closedAt)));
+
+      const [order] = await tx
+        .insert(orders)
+        .values({ ...insertOrder, restaurantId, shiftId: open?.id ?? null })
+        .returning();
+      const insertedItems: OrderItem[] = await tx
+        .insert(orderItems)
+        .values(items.map((item, position) => ({ ...item, orderId: order.id, position })))
+        .returning();
+      await tx.insert(orderStatusEvents).values({
+        orderId: order.id,
+        fromStatus: null,
+        toStatus: order.status,
+        changedAt: order.createdAt,
+      });
+      return { ...order, items: insertedItems, payments: [], adjustments: [] };
+    });
+  }
+
+  async updateOrderStatus(
+    restaurantId: string,
+    id: string,
+    status: OrderStatus,
+    changedBy: string | null = null,
+  ): Promise<OrderWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({
+          status: orders.status,
+          paymentStatus: orders.paymentStatus,
+          shiftClosedAt: shifts.closedAt,
+        })
+        .from(orders)
+        .leftJoin(shifts, eq(shifts.id, orders.shiftId))
+        .where(and(eq(orders.id, id), eq(orders.restaurantId, restaurantId)))
+        .for("update", { of: orders });
+      if (!existing) return undefined;
+
+      const [payment] = await tx
+        .select({ id: payments.id })
+        .from(payments)
+        .where(eq(payments.orderId, id))
+        .limit(1);
+      checkStatusChange(
+        existing,
+        { hasPayments: !!payment, shiftClosed: !!existing.shiftClosedAt },
+        status,
+      );
+
+      await tx.update(orders).set({ status }).where(eq(orders.id, id));
+      await tx.insert(orderStatusEvents).values({
+        orderId: id,
+        fromStatus: existing.status,
+        toStatus: status,
+        changedBy,
+      });
+      const order = await tx.query.orders.findFirst({ where: eq(orders.id, id), with: orderRelations });
+      return order && withDecimals(order);
+    });
+  }
+
+  async getOrderTimeline(restaurantId: string, orderId: string): Promise<OrderStatusEvent[]> {
+    return this.db
+      .select(getTableColumns(orderStatusEvents))
+      .from(orderStatusEvents)
+      .innerJoin(orders, eq(orders.id, orderStatusEvents.orderId))
+      .where(and(eq(orderStatusEvents.orderId, orderId), eq(orders.restaurantId, restaurantId)))
+      .orderBy(asc(orderStatusEvents.changedAt));
+  }
+
+  async addPayments(
+    restaurantId: string,
+    orderId: string,
+    newPayments: InsertPayment[],
+    receivedBy: string | null = null,
+  ): Promise<OrderWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ status: orders.status, totalPrice: orders.totalPrice })
+        .from(orders)
+        .where(and(eq(orders.id, orderId), eq(orders.restaurantId, restaurantId)))
+        .for("update");
+      if (!existing) return undefined;
+
+      const earlier = await tx
+        .select({ amount: payments.amount })
+        .from(payments)
+        .where(eq(payments.orderId, orderId));
+      const earlierCents = earlier.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+      checkPayments(existing, earlierCents, newPayments);
+
+      await tx
+        .insert(payments)
+        .values(newPayments.map((payment) => ({ ...payment, orderId, receivedBy })));
+      const paidCents =
+        earlierCents + newPayments.reduce((sum, payment) => sum + toCents(payment.amount), 0);
+
+      await tx
+        .update(orders)
+        .set({ paymentStatus: paymentStatusFor(toCents(existing.totalPrice), paidCents) })
+        .where(eq(orders.id, orderId));
+      const order = await tx.query.orders.findFirst({
+        where: eq(orders.id, orderId),
+        with: orderRelations,
+      });
+      return order && withDecimals(order);
+    });
+  }
+
+  async recordAdjustment(
+    restaurantId: string,
+    orderId: string,
+    adjustment: InsertOrderAdjustment,
+  ): Promise<OrderWithItems | undefined> {
+    return this.db.transaction(async (tx) => {
+      // Shared, like a new order, so the shift this is booked to can't close
+      // underneath it.
+      await tx
+        .select({ id: restaurants.id })
+        .from(restaurants)
+        .where(eq(restaurants.id, restaurantId))
+        .for("share");
+      const [existing] = await tx
+        .select({
+          status: orders.status,
+          refundTotal: orders.refundTotal,
+          shiftClosedAt: shifts.closedAt,
+        })
+        .from(orders)
+        .leftJoin(shifts, eq(shifts.id, orders.shiftId))
+        .where(and(eq(orders.id, orderId), eq(orders.restaurantId, restaurantId)))
+        .for("update", { of: orders });
+      if (!existing) return undefined;
+      const [open] = await tx
+        .select({ id: shifts.id })
+        .from(shifts)
+        .where(and(eq(shifts.restaurantId, restaurantId), isNull(shifts.closedAt)));
+
+      const paid = await tx
+        .select({ amount: payments.amount })
+        .from(payments)
+        .where(eq(payments.orderId, orderId));
+      checkAdjustment(
+        existing,
+        paid.reduce((sum, payment) => sum + toCents(payment.amount), 0),
+        { shiftClosed: !!existing.shiftClosedAt, shiftOpen: !!open },
+        adjustment,
+      );
+
+      await tx
+        .insert(orderAdjustments)
+        .values({ ...adjustment, orderId, shiftId: open?.id ?? null });
+
+      if (adjustment.kind === "void") {
+        await tx.update(orders).set({ status: "cancelled" }).where(eq(orders.id, orderId));
+        await tx.insert(orderStatusEvents).values({
+          orderId,
+          fromStatus: existing.status,
+          toStatus: "cancelled",
+          changedBy: adjustment.requestedBy,
+        });
+      } else {
+        await tx
+          .update(orders)
+          .set({
+            refundTotal: fromCents(toCents(existing.refundTotal) + toCents(adjustment.amount)),
+          })
+          .where(eq(orders.id, orderId));
+      }
+
+      const order = await tx.query.orders.findFirst({
+        where: eq(orders.id, orderId),
+        with: orderRelations,
+      });
+      return order && withDecimals(order);
+    });
+  }
+
+  async getRevenueSeries(
+    restaurantId: string,
+    { from, to, bucket }: AnalyticsRange & { bucket: AnalyticsBucket },
+    { timezone, dayCutover }: BusinessDaySettings,
+  ): Promise<RevenuePoint[]> {
+    // created_at holds UTC. Bucketing happens on the restaurant's wall clock;
+    // days, weeks and months are moved back by the cutover first so they
+    // line up with business days. bucket is one of ANALYTICS_BUCKETS, so it is
+    // safe to inline.
+    const local = sql`(${orders.createdAt} AT TIME ZONE 'UTC' AT TIME ZONE ${timezone})`;
+    const localStart =
+      bucket === "hour"
+        ? sql`date_trunc('hour', ${local})`
+        : sql`(date_trunc('${sql.raw(bucket)}', ${local} - ${dayCutover}::interval) + ${dayCutover}::interval)`;
+    const bucketStart = sql`(${localStart} AT TIME ZONE ${timezone} AT TIME ZONE 'UTC')`.mapWith(
+      orders.createdAt,
+    );
+    const rows = await this.db
+      .select({
+        bucket: bucketStart,
+        orders: sql<number>`count(*)::int`,
+        revenueCents: bigintSum(sql`round(sum((${orders.totalPrice} - ${orders.refundTotal}) * 100))`),
+      })
+      .from(orders)
+      .where(this.completedOrdersIn(restaurantId, { from, to }))
+      // By position: the bound timezone makes the expression differ as text.
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+    return rows.map((row) => revenuePoint(row.bucket, row.orders, row.revenueCents));
+  }
+
+  async getTopItems(
+    restaurantId: string,
+    { from, to, limit }: AnalyticsRange & { limit: number },
+  ): Promise<TopItem[]> {
+    const quantity = bigintSum(sql`sum(${orderItems.quantity})`);
+    const revenueCents = bigintSum(
+      sql`round(sum((${orderItems.quantity} * ${orderItems.unitPrice} - ${orderItems.discountAmount}) * 100))`,
+    );
+    const rows = await this.db
+      .select({ name: orderItems.name, quantity, revenueCents })
+      .from(orderItems)
+      .innerJoin(orders, eq(orders.id, orderItems.orderId))
+      .where(this.completedOrdersIn(restaurantId, { from, to }))
+      .groupBy(orderItems.name)
+      .orderBy(desc(quantity), desc(revenueCents))
+      .limit(limit);
+    return rows.map((row) => ({
+      name: row.name,
+      quantity: row.quantity,
+      revenue: fromCents(row.revenueCents),
+    }));
+  }
+
+  async getRevenueSummary(restaurantId: string, range: AnalyticsRange): Promise<RevenueSummary> {
+    const [row] = await this.db
+      .select({
+        orders: sql<number>`count(*)::int`,
+        revenueCents: bigintSum(
+          sql`coalesce(round(sum((${orders.totalPrice} - ${orders.refundTotal}) * 100)), 0)`,
+        ),
+        discountCents: bigintSum(sql`coalesce(round(sum(${orders.discountTotal} * 100)), 0)`),
+        refundCents: bigintSum(sql`coalesce(round(sum(${orders.refundTotal} * 100)), 0)`),
+      })
+      .from(orders)
+      .where(this.completedOrdersIn(restaurantId, range));
+    return revenueSummary(row.orders, row.revenueCents, row.discountCents, row.refundCents);
+  }
+
+  private completedOrdersIn(restaurantId: string, { from, to }: AnalyticsRange) {
+    return and(
+      eq(orders.restaurantId, restaurantId),
+      eq(orders.status, "completed"),
+      gte(orders.createdAt, from),
+      lt(orders.createdAt, to),
+    );
+  }
+}
+
+// STORAGE=memory|database picks the backend explicitly; otherwise use the
+// database whenever one is provisioned.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE || (db ? "database" : "memory");
+
+  if (driver === "database") {
+    if (!db || !pool) {
+      throw new Error(
+        "DATABASE_URL must be set. Did you forget to provision a database?",
+      );
     }
-    return undefined;
+    return new DatabaseStorage(
+      db,
+      new PostgresSessionStore({ pool, createTableIfMissing: true }),
+    );
+  }
+
+  if (driver !== "memory") {
+    throw new Error(`Unknown STORAGE "${driver}". Use "memory" or "database".`);
   }
+
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,44 @@
+import type { Request, Response, NextFunction } from "express";
+import type { Restaurant } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    interface Request {
+      restaurant?: Restaurant;
+    }
+  }
+}
+
+// The restaurant a request asks to act on, from the restaurant_id query
+// parameter or the X-Restaurant-Id header. Optional: it defaults to the
+// signed-in user's restaurant.
+function requestedRestaurantId(req: Request): string | undefined {
+  const fromQuery = req.query.restaurant_id;
+  if (typeof fromQuery === "string" && fromQuery) return fromQuery;
+  return req.get("x-restaurant-id") || undefined;
+}
+
+// Must run after requireAuth. Staff only ever act on their own restaurant;
+// asking for any other one is refused rather than silently ignored.
+export async function requireRestaurant(req: Request, res: Response, next: NextFunction) {
+  try {
+    const userRestaurantId = req.user!.restaurantId;
+    const restaurantId = requestedRestaurantId(req) ?? userRestaurantId;
+
+    if (restaurantId !== userRestaurantId) {
+      return res.status(403).json({ error: 'You do not have access to this restaurant' });
+    }
+
+    const restaurant = await storage.getRestaurant(restaurantId);
+
+    if (!restaurant) {
+      return res.status(404).json({ error: 'Restaurant not found' });
+    }
+
+    req.restaurant = restaurant;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,37 +1,50 @@
-export const sampleOrders = [
+import { type CreateOrder } from "@shared/schema";
+
+export const sampleOrders: CreateOrder[] = [
   {
     orderNumber: 1236,
     customerName: "Alex Thompson",
-    items: ["2x Spaghetti Carbonara", "1x Tiramisu", "1x Red Wine"],
-    totalPrice: "52.75",
-    status: "pending",
+    items: [
+      { name: "Spaghetti Carbonara", quantity: 2, unitPrice: "16.50" },
+      { name: "Tiramisu", quantity: 1, unitPrice: "8.75" },
+      { name: "Red Wine", quantity: 1, unitPrice: "11.00" },
+    ],
   },
   {
     orderNumber: 1237,
     customerName: "Maria Garcia",
-    items: ["1x Grilled Salmon", "1x Mashed Potatoes", "1x Iced Tea"],
-    totalPrice: "34.50",
-    status: "pending",
+    items: [
+      { name: "Grilled Salmon", quantity: 1, unitPrice: "22.50" },
+      { name: "Mashed Potatoes", quantity: 1, unitPrice: "7.50" },
+      { name: "Iced Tea", quantity: 1, unitPrice: "4.50" },
+    ],
   },
   {
     orderNumber: 1238,
     customerName: "Robert Kim",
-    items: ["3x Tacos", "1x Nachos", "2x Margarita"],
-    totalPrice: "41.00",
-    status: "pending",
+    items: [
+      { name: "Tacos", quantity: 3, unitPrice: "6.00" },
+      { name: "Nachos", quantity: 1, unitPrice: "9.00" },
+      { name: "Margarita", quantity: 2, unitPrice: "7.00" },
+    ],
   },
   {
     orderNumber: 1239,
     customerName: "Jennifer Lee",
-    items: ["1x Vegetable Stir Fry", "1x Spring Rolls", "1x Green Tea"],
-    totalPrice: "27.25",
-    status: "pending",
+    items: [
+      { name: "Vegetable Stir Fry", quantity: 1, unitPrice: "15.25" },
+      { name: "Spring Rolls", quantity: 1, unitPrice: "7.50" },
+      { name: "Green Tea", quantity: 1, unitPrice: "4.50" },
+    ],
   },
   {
     orderNumber: 1240,
     customerName: "Tom Anderson",
-    items: ["1x Ribeye Steak", "1x Baked Potato", "1x Caesar Salad", "1x Beer"],
-    totalPrice: "68.00",
-    status: "pending",
+    items: [
+      { name: "Ribeye Steak", quantity: 1, unitPrice: "42.00" },
+      { name: "Baked Potato", quantity: 1, unitPrice: "6.50" },
+      { name: "Caesar Salad", quantity: 1, unitPrice: "12.00" },
+      { name: "Beer", quantity: 1, unitPrice: "7.50" },
+    ],
   },
 ];
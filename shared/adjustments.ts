@@ -0,0 +1,47 @@
+// Voids cancel an order nobody has paid for yet; refunds give money back on
+// one that has been paid. Both are recorded, with a reason, in the order's
+// adjustment trail.
+export const ADJUSTMENT_KINDS = ["void", "refund"] as const;
+
+export type AdjustmentKind = (typeof ADJUSTMENT_KINDS)[number];
+
+export const VOID_REASONS = [
+  "customer_cancelled",
+  "wrong_order",
+  "duplicate",
+  "kitchen_error",
+  "test_order",
+  "other",
+] as const;
+
+export const REFUND_REASONS = [
+  "food_quality",
+  "wrong_item",
+  "missing_item",
+  "long_wait",
+  "overcharged",
+  "other",
+] as const;
+
+export type VoidReason = (typeof VOID_REASONS)[number];
+export type RefundReason = (typeof REFUND_REASONS)[number];
+export type AdjustmentReason = VoidReason | RefundReason;
+
+export const ADJUSTMENT_REASON_LABELS: Record<AdjustmentReason, string> = {
+  customer_cancelled: "Customer cancelled",
+  wrong_order: "Wrong order entered",
+  duplicate: "Duplicate order",
+  kitchen_error: "Kitchen couldn't make it",
+  test_order: "Test order",
+  food_quality: "Food quality",
+  wrong_item: "Wrong item served",
+  missing_item: "Item missing",
+  long_wait: "Long wait",
+  overcharged: "Overcharged",
+  other: "Other",
+};
+
+export const ADJUSTMENT_KIND_LABELS: Record<AdjustmentKind, string> = {
+  void: "Void",
+  refund: "Refund",
+};
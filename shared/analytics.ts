@@ -0,0 +1,86 @@
+import { z } from "zod";
+import { businessDateString } from "./businessDay";
+
+// Analytics count completed orders only, net of refunds, so the figures agree
+// with the dashboard's revenue card.
+export const ANALYTICS_BUCKETS = ["hour", "day", "week", "month"] as const;
+
+export type AnalyticsBucket = (typeof ANALYTICS_BUCKETS)[number];
+
+export const ANALYTICS_BUCKET_LABELS: Record<AnalyticsBucket, string> = {
+  hour: "Hourly",
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+};
+
+// Ranges are whole business days, both ends inclusive. A missing end means
+// the restaurant's current business day; a missing start goes back from the
+// end by the endpoint's default length.
+export const analyticsRangeSchema = z
+  .object({
+    from: z.string().regex(businessDateString, "Must be a date like 2024-05-31").optional(),
+    to: z.string().regex(businessDateString, "Must be a date like 2024-05-31").optional(),
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, {
+    message: "from must not be after to",
+    path: ["from"],
+  });
+
+export const revenueQuerySchema = z
+  .object({ bucket: z.enum(ANALYTICS_BUCKETS).default("day") })
+  .and(analyticsRangeSchema);
+
+export const topItemsQuerySchema = z
+  .object({ limit: z.coerce.number().int().min(1).max(50).default(10) })
+  .and(analyticsRangeSchema);
+
+export type BusinessDateRange = z.infer<typeof analyticsRangeSchema>;
+// The instants a business-date range covers, `to` exclusive.
+export type AnalyticsRange = { from: Date; to: Date };
+export type RevenueQuery = z.infer<typeof revenueQuerySchema>;
+export type TopItemsQuery = z.infer<typeof topItemsQuerySchema>;
+
+export const revenuePointSchema = z.object({
+  // Start of the bucket, as an ISO timestamp.
+  bucket: z.string(),
+  revenue: z.string(),
+  orders: z.number(),
+  averageTicket: z.string(),
+});
+
+export const revenueSummarySchema = z.object({
+  revenue: z.string(),
+  discounts: z.string(),
+  refunds: z.string(),
+  orders: z.number(),
+  averageTicket: z.string(),
+});
+
+// A range's figures next to the same-length range just before it (yesterday,
+// for a single day) and the range exactly a week earlier.
+export const revenueComparisonSchema = z.object({
+  current: revenueSummarySchema,
+  previousPeriod: revenueSummarySchema,
+  previousWeek: revenueSummarySchema,
+});
+
+export type RevenuePoint = z.infer<typeof revenuePointSchema>;
+export type RevenueSummary = z.infer<typeof revenueSummarySchema>;
+export type RevenueComparison = z.infer<typeof revenueComparisonSchema>;
+
+// Percentage change between two money strings, or null when there is nothing
+// to compare against.
+export function percentChange(current: string, previous: string): number | null {
+  const before = Number(previous);
+  if (before === 0) return null;
+  return ((Number(current) - before) / before) * 100;
+}
+
+export const topItemSchema = z.object({
+  name: z.string(),
+  quantity: z.number(),
+  revenue: z.string(),
+});
+
+export type TopItem = z.infer<typeof topItemSchema>;
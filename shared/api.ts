@@ -0,0 +1,320 @@
+import { z } from "zod";
+import {
+  closeShiftSchema,
+  createOrderSchema,
+  currentShiftSchema,
+  insertMenuCategorySchema,
+  insertMenuItemSchema,
+  insertPromotionSchema,
+  insertUserSchema,
+  loginSchema,
+  menuItemAvailabilitySchema,
+  menuSchema,
+  modifierGroupWithOptionsSchema,
+  openShiftSchema,
+  orderWithItemsSchema,
+  publicUserSchema,
+  refundOrderSchema,
+  replaceModifierGroupsSchema,
+  selectBusinessDaySchema,
+  selectMenuCategorySchema,
+  selectMenuItemSchema,
+  selectOrderStatusEventSchema,
+  selectPromotionSchema,
+  selectRestaurantSchema,
+  selectShiftSchema,
+  settleOrderSchema,
+  updateMenuCategorySchema,
+  updateMenuItemSchema,
+  updateOrderStatusSchema,
+  updatePromotionSchema,
+  updateRestaurantSchema,
+  voidOrderSchema,
+  type BusinessDay,
+  type CurrentShift,
+  type Menu,
+  type MenuItem,
+  type OrderStatusEvent,
+  type OrderWithItems,
+  type Promotion,
+  type PublicUser,
+  type Restaurant,
+  type Shift,
+} from "./schema";
+import {
+  analyticsRangeSchema,
+  revenueComparisonSchema,
+  revenuePointSchema,
+  revenueQuerySchema,
+  topItemSchema,
+  topItemsQuerySchema,
+} from "./analytics";
+import { zReportSchema } from "./reports";
+
+// The HTTP API as one table: every route the client calls, with the zod
+// schemas for its query string, body and response. The client builds its
+// requests from these and reads responses through them, so a change on
+// either side shows up as a type error rather than a blank screen.
+
+export type HttpMethod = "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
+
+export interface Endpoint<
+  Path extends string = string,
+  Query extends z.ZodTypeAny = z.ZodTypeAny,
+  Body extends z.ZodTypeAny = z.ZodTypeAny,
+  Response extends z.ZodTypeAny = z.ZodTypeAny,
+> {
+  method: HttpMethod;
+  // Express-style, e.g. "/api/orders/:id/status".
+  path: Path;
+  query?: Query;
+  body?: Body;
+  // Left out for routes that answer with no body worth reading.
+  response?: Response;
+}
+
+function endpoint<
+  Path extends string,
+  Query extends z.ZodTypeAny = z.ZodNever,
+  Body extends z.ZodTypeAny = z.ZodNever,
+  Response extends z.ZodTypeAny = z.ZodVoid,
+>(definition: Endpoint<Path, Query, Body, Response>) {
+  return definition;
+}
+
+type PathParamNames<Path extends string> = Path extends `${string}:${infer Name}/${infer Rest}`
+  ? Name | PathParamNames<`/${Rest}`>
+  : Path extends `${string}:${infer Name}`
+    ? Name
+    : never;
+
+// What a call to an endpoint takes: path parameters when the path has any, the
+// query string and body when it accepts them. restaurantId picks the tenant
+// and defaults to the signed-in user's restaurant, as on the server.
+export type ApiInput<E> =
+  E extends Endpoint<infer Path, infer Query, infer Body, z.ZodTypeAny>
+    ? ([PathParamNames<Path>] extends [never]
+        ? {}
+        : { params: Record<PathParamNames<Path>, string> }) &
+        (Query extends z.ZodNever ? {} : { query?: z.input<Query> }) &
+        (Body extends z.ZodNever ? {} : { body: z.input<Body> }) & { restaurantId?: string }
+    : never;
+
+export type ApiResponse<E> =
+  E extends Endpoint<string, z.ZodTypeAny, z.ZodTypeAny, infer Response>
+    ? Response extends z.ZodVoid
+      ? void
+      : z.output<Response>
+    : never;
+
+// ?shift_id=current scopes the list to the open shift.
+export const orderListQuerySchema = z.object({ shift_id: z.string().optional() });
+
+export const api = {
+  auth: {
+    me: endpoint({ method: "GET", path: "/api/me", response: publicUserSchema }),
+    login: endpoint({
+      method: "POST",
+      path: "/api/login",
+      body: loginSchema,
+      response: publicUserSchema,
+    }),
+    logout: endpoint({ method: "POST", path: "/api/logout" }),
+  },
+  realtime: {
+    // For opening /ws?token=... or /api/events?token=... from another origin,
+    // where the connection doesn't carry the session cookie.
+    token: endpoint({
+      method: "GET",
+      path: "/api/realtime/token",
+      response: z.object({ token: z.string() }),
+    }),
+  },
+  restaurants: {
+    list: endpoint({
+      method: "GET",
+      path: "/api/restaurants",
+      response: z.array(selectRestaurantSchema),
+    }),
+    update: endpoint({
+      method: "PATCH",
+      path: "/api/restaurants/:id",
+      body: updateRestaurantSchema,
+      response: selectRestaurantSchema,
+    }),
+  },
+  users: {
+    list: endpoint({ method: "GET", path: "/api/users", response: z.array(publicUserSchema) }),
+    create: endpoint({
+      method: "POST",
+      path: "/api/users",
+      body: insertUserSchema,
+      response: publicUserSchema,
+    }),
+  },
+  orders: {
+    list: endpoint({
+      method: "GET",
+      path: "/api/orders",
+      query: orderListQuerySchema,
+      response: z.array(orderWithItemsSchema),
+    }),
+    create: endpoint({
+      method: "POST",
+      path: "/api/orders",
+      body: createOrderSchema,
+      response: orderWithItemsSchema,
+    }),
+    updateStatus: endpoint({
+      method: "PATCH",
+      path: "/api/orders/:id/status",
+      body: updateOrderStatusSchema,
+      response: orderWithItemsSchema,
+    }),
+    settle: endpoint({
+      method: "POST",
+      path: "/api/orders/:id/payments",
+      body: settleOrderSchema,
+      response: orderWithItemsSchema,
+    }),
+    void: endpoint({
+      method: "POST",
+      path: "/api/orders/:id/void",
+      body: voidOrderSchema,
+      response: orderWithItemsSchema,
+    }),
+    refund: endpoint({
+      method: "POST",
+      path: "/api/orders/:id/refunds",
+      body: refundOrderSchema,
+      response: orderWithItemsSchema,
+    }),
+    timeline: endpoint({
+      method: "GET",
+      path: "/api/orders/:id/timeline",
+      response: z.array(selectOrderStatusEventSchema),
+    }),
+  },
+  menu: {
+    get: endpoint({ method: "GET", path: "/api/menu", response: menuSchema }),
+    createCategory: endpoint({
+      method: "POST",
+      path: "/api/menu/categories",
+      body: insertMenuCategorySchema,
+      response: selectMenuCategorySchema,
+    }),
+    updateCategory: endpoint({
+      method: "PATCH",
+      path: "/api/menu/categories/:id",
+      body: updateMenuCategorySchema,
+      response: selectMenuCategorySchema,
+    }),
+    deleteCategory: endpoint({ method: "DELETE", path: "/api/menu/categories/:id" }),
+    createItem: endpoint({
+      method: "POST",
+      path: "/api/menu/items",
+      body: insertMenuItemSchema,
+      response: selectMenuItemSchema,
+    }),
+    updateItem: endpoint({
+      method: "PATCH",
+      path: "/api/menu/items/:id",
+      body: updateMenuItemSchema,
+      response: selectMenuItemSchema,
+    }),
+    setAvailability: endpoint({
+      method: "PATCH",
+      path: "/api/menu/items/:id/availability",
+      body: menuItemAvailabilitySchema,
+      response: selectMenuItemSchema,
+    }),
+    replaceModifiers: endpoint({
+      method: "PUT",
+      path: "/api/menu/items/:id/modifiers",
+      body: replaceModifierGroupsSchema,
+      response: z.array(modifierGroupWithOptionsSchema),
+    }),
+    deleteItem: endpoint({ method: "DELETE", path: "/api/menu/items/:id" }),
+  },
+  promotions: {
+    list: endpoint({
+      method: "GET",
+      path: "/api/promotions",
+      response: z.array(selectPromotionSchema),
+    }),
+    create: endpoint({
+      method: "POST",
+      path: "/api/promotions",
+      body: insertPromotionSchema,
+      response: selectPromotionSchema,
+    }),
+    update: endpoint({
+      method: "PATCH",
+      path: "/api/promotions/:id",
+      body: updatePromotionSchema,
+      response: selectPromotionSchema,
+    }),
+    delete: endpoint({ method: "DELETE", path: "/api/promotions/:id" }),
+  },
+  shifts: {
+    current: endpoint({ method: "GET", path: "/api/shifts/current", response: currentShiftSchema }),
+    list: endpoint({ method: "GET", path: "/api/shifts", response: z.array(selectShiftSchema) }),
+    open: endpoint({
+      method: "POST",
+      path: "/api/shifts",
+      body: openShiftSchema,
+      response: currentShiftSchema.unwrap(),
+    }),
+    close: endpoint({
+      method: "POST",
+      path: "/api/shifts/:id/close",
+      body: closeShiftSchema,
+      response: selectShiftSchema,
+    }),
+    closeBusinessDay: endpoint({
+      method: "POST",
+      path: "/api/business-days/current/close",
+      response: selectBusinessDaySchema,
+    }),
+  },
+  reports: {
+    z: endpoint({ method: "GET", path: "/api/reports/z/:shiftId", response: zReportSchema }),
+  },
+  analytics: {
+    revenue: endpoint({
+      method: "GET",
+      path: "/api/analytics/revenue",
+      query: revenueQuerySchema,
+      response: z.array(revenuePointSchema),
+    }),
+    topItems: endpoint({
+      method: "GET",
+      path: "/api/analytics/top-items",
+      query: topItemsQuerySchema,
+      response: z.array(topItemSchema),
+    }),
+    summary: endpoint({
+      method: "GET",
+      path: "/api/analytics/summary",
+      query: analyticsRangeSchema,
+      response: revenueComparisonSchema,
+    }),
+  },
+};
+
+// The response schemas above must read back exactly the rows the server
+// builds from the tables; this stops compiling when the two drift apart.
+type Same<A, B> = [A] extends [B] ? ([B] extends [A] ? true : false) : false;
+type Assert<T extends true> = T;
+export type ResponsesMatchRows = [
+  Assert<Same<ApiResponse<typeof api.auth.me>, PublicUser>>,
+  Assert<Same<ApiResponse<typeof api.restaurants.update>, Restaurant>>,
+  Assert<Same<ApiResponse<typeof api.orders.updateStatus>, OrderWithItems>>,
+  Assert<Same<ApiResponse<typeof api.orders.timeline>, OrderStatusEvent[]>>,
+  Assert<Same<ApiResponse<typeof api.menu.get>, Menu>>,
+  Assert<Same<ApiResponse<typeof api.menu.updateItem>, MenuItem>>,
+  Assert<Same<ApiResponse<typeof api.promotions.update>, Promotion>>,
+  Assert<Same<ApiResponse<typeof api.shifts.current>, CurrentShift>>,
+  Assert<Same<ApiResponse<typeof api.shifts.close>, Shift>>,
+  Assert<Same<ApiResponse<typeof api.shifts.closeBusinessDay>, BusinessDay>>,
+];
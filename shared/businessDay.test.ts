@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import {
+  addBusinessDays,
+  bucketStart,
+  businessDateFor,
+  businessDayRange,
+  businessDayStart,
+  isValidTimeZone,
+  minuteOfDay,
+  zonedTimeToInstant,
+  type BusinessDaySettings,
+} from "./businessDay";
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+
+const kolkata: BusinessDaySettings = { timezone: "Asia/Kolkata", dayCutover: "06:00" };
+const london: BusinessDaySettings = { timezone: "Europe/London", dayCutover: "06:00" };
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names and refuses anything else", () => {
+    expect(isValidTimeZone("Asia/Kolkata")).toBe(true);
+    expect(isValidTimeZone("UTC")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus_Mons")).toBe(false);
+  });
+});
+
+describe("addBusinessDays", () => {
+  it("carries over months, years and leap days", () => {
+    expect(addBusinessDays("2024-02-28", 1)).toBe("2024-02-29");
+    expect(addBusinessDays("2024-02-28", 2)).toBe("2024-03-01");
+    expect(addBusinessDays("2023-02-28", 1)).toBe("2023-03-01");
+    expect(addBusinessDays("2024-01-01", -1)).toBe("2023-12-31");
+  });
+});
+
+describe("businessDateFor", () => {
+  it("keeps sales before the cutover in the previous day", () => {
+    // 05:59 and 06:00 in Kolkata.
+    expect(businessDateFor(utc("2024-06-01T00:29"), kolkata)).toBe("2024-05-31");
+    expect(businessDateFor(utc("2024-06-01T00:30"), kolkata)).toBe("2024-06-01");
+  });
+
+  it("starts the day at midnight with a 00:00 cutover", () => {
+    const midnight = { ...kolkata, dayCutover: "00:00" };
+
+    expect(businessDateFor(utc("2024-05-31T18:29"), midnight)).toBe("2024-05-31");
+    expect(businessDateFor(utc("2024-05-31T18:30"), midnight)).toBe("2024-06-01");
+  });
+
+  it("goes back across a new year", () => {
+    expect(businessDateFor(utc("2024-01-01T03:00"), { timezone: "UTC", dayCutover: "06:00" })).toBe(
+      "2023-12-31",
+    );
+  });
+
+  it("follows the wall clock through a DST change", () => {
+    // 06:00 is 06:00 UTC before the clocks go forward and 05:00 UTC after.
+    expect(businessDateFor(utc("2024-03-30T05:59"), london)).toBe("2024-03-29");
+    expect(businessDateFor(utc("2024-03-30T06:00"), london)).toBe("2024-03-30");
+    expect(businessDateFor(utc("2024-04-01T04:59"), london)).toBe("2024-03-31");
+    expect(businessDateFor(utc("2024-04-01T05:00"), london)).toBe("2024-04-01");
+  });
+});
+
+describe("zonedTimeToInstant", () => {
+  it("handles offsets that aren't whole hours", () => {
+    expect(zonedTimeToInstant("2024-06-01", "06:00", "Asia/Kolkata")).toEqual(utc("2024-06-01T00:30"));
+    expect(zonedTimeToInstant("2024-06-01", "06:00", "Asia/Kathmandu")).toEqual(utc("2024-06-01T00:15"));
+  });
+
+  it("uses the offset in force on that date", () => {
+    expect(zonedTimeToInstant("2024-01-15", "06:00", "Europe/London")).toEqual(utc("2024-01-15T06:00"));
+    expect(zonedTimeToInstant("2024-06-15", "06:00", "Europe/London")).toEqual(utc("2024-06-15T05:00"));
+  });
+
+  it("moves a time the clocks skip to the jump", () => {
+    // 01:30 doesn't happen in London on 31 March 2024, nor 02:30 in New York
+    // on 10 March; the clocks go straight to 02:00 and 03:00 summer time.
+    expect(zonedTimeToInstant("2024-03-31", "01:30", "Europe/London")).toEqual(utc("2024-03-31T01:00"));
+    expect(zonedTimeToInstant("2024-03-10", "02:30", "America/New_York")).toEqual(
+      utc("2024-03-10T07:00"),
+    );
+  });
+
+  it("takes the first of a time the clocks pass twice", () => {
+    expect(zonedTimeToInstant("2024-10-27", "01:30", "Europe/London")).toEqual(utc("2024-10-27T00:30"));
+    expect(zonedTimeToInstant("2024-11-03", "01:30", "America/New_York")).toEqual(
+      utc("2024-11-03T05:30"),
+    );
+  });
+});
+
+describe("businessDayStart and businessDayRange", () => {
+  it("starts the day at the cutover", () => {
+    expect(businessDayStart("2024-06-01", kolkata)).toEqual(utc("2024-06-01T00:30"));
+  });
+
+  it("covers whole days, the last one included", () => {
+    expect(businessDayRange("2024-06-01", "2024-06-02", kolkata)).toEqual({
+      from: utc("2024-06-01T00:30"),
+      to: utc("2024-06-03T00:30"),
+    });
+  });
+
+  it("gives the days the clocks change on 23 and 25 hours", () => {
+    const hours = ({ from, to }: { from: Date; to: Date }) => (to.getTime() - from.getTime()) / 3600000;
+
+    expect(hours(businessDayRange("2024-03-30", "2024-03-30", london))).toBe(23);
+    expect(hours(businessDayRange("2024-10-26", "2024-10-26", london))).toBe(25);
+    expect(hours(businessDayRange("2024-06-01", "2024-06-01", london))).toBe(24);
+  });
+
+  it("starts a day whose cutover is skipped at the jump, as businessDateFor does", () => {
+    const lateCutover = { timezone: "Europe/London", dayCutover: "01:30" };
+
+    expect(businessDayStart("2024-03-31", lateCutover)).toEqual(utc("2024-03-31T01:00"));
+    expect(businessDateFor(utc("2024-03-31T00:59"), lateCutover)).toBe("2024-03-30");
+    expect(businessDateFor(utc("2024-03-31T01:00"), lateCutover)).toBe("2024-03-31");
+  });
+});
+
+describe("minuteOfDay", () => {
+  it("reads the restaurant's wall clock", () => {
+    expect(minuteOfDay(utc("2024-06-01T12:00"), "Asia/Kolkata")).toBe(17 * 60 + 30);
+    expect(minuteOfDay(utc("2024-06-01T18:30"), "Asia/Kolkata")).toBe(0);
+  });
+});
+
+describe("bucketStart", () => {
+  it("buckets hours on the wall clock", () => {
+    expect(bucketStart(utc("2024-06-01T12:45"), "hour", kolkata)).toEqual(utc("2024-06-01T12:30"));
+    // Before the cutover still counts as its own hour.
+    expect(bucketStart(utc("2024-06-01T00:15"), "hour", kolkata)).toEqual(utc("2024-05-31T23:30"));
+  });
+
+  it("buckets days by business day", () => {
+    expect(bucketStart(utc("2024-06-01T00:29"), "day", kolkata)).toEqual(utc("2024-05-31T00:30"));
+    expect(bucketStart(utc("2024-06-01T00:30"), "day", kolkata)).toEqual(utc("2024-06-01T00:30"));
+  });
+
+  it("starts weeks on Monday", () => {
+    const settings = { timezone: "UTC", dayCutover: "00:00" };
+    const monday = utc("2024-05-27T00:00");
+
+    expect(bucketStart(utc("2024-05-27T00:00"), "week", settings)).toEqual(monday);
+    expect(bucketStart(utc("2024-06-01T12:00"), "week", settings)).toEqual(monday);
+    expect(bucketStart(utc("2024-06-02T23:59"), "week", settings)).toEqual(monday);
+    expect(bucketStart(utc("2024-06-03T00:00"), "week", settings)).toEqual(utc("2024-06-03T00:00"));
+  });
+
+  it("keeps early Monday sales in the week before", () => {
+    const settings = { timezone: "UTC", dayCutover: "06:00" };
+
+    expect(bucketStart(utc("2024-06-03T05:59"), "week", settings)).toEqual(utc("2024-05-27T06:00"));
+    expect(bucketStart(utc("2024-06-03T06:00"), "week", settings)).toEqual(utc("2024-06-03T06:00"));
+  });
+
+  it("buckets months by business day", () => {
+    const settings = { timezone: "UTC", dayCutover: "06:00" };
+
+    expect(bucketStart(utc("2024-06-01T05:59"), "month", settings)).toEqual(utc("2024-05-01T06:00"));
+    expect(bucketStart(utc("2024-06-01T06:00"), "month", settings)).toEqual(utc("2024-06-01T06:00"));
+    expect(bucketStart(utc("2025-01-01T05:59"), "month", settings)).toEqual(utc("2024-12-01T06:00"));
+  });
+
+  it("starts a month on the offset in force when it began", () => {
+    // April began in summer time in London, so at 05:00 UTC.
+    expect(bucketStart(utc("2024-04-15T12:00"), "month", london)).toEqual(utc("2024-04-01T05:00"));
+    // March began in winter time.
+    expect(bucketStart(utc("2024-03-31T12:00"), "month", london)).toEqual(utc("2024-03-01T06:00"));
+  });
+});
@@ -0,0 +1,186 @@
+// A restaurant's trading day runs from its cutover time to the same time the
+// next day, in the restaurant's own timezone: with a 06:00 cutover, a 1am
+// sale belongs to the previous day. Business dates are "yyyy-MM-dd" strings.
+// Everything here goes through Intl, so it gives the same answer on the
+// server and in the browser whatever their own timezones are.
+
+export const DEFAULT_TIMEZONE = "Asia/Kolkata";
+export const DEFAULT_DAY_CUTOVER = "00:00";
+
+export interface BusinessDaySettings {
+  timezone: string;
+  // "HH:MM" in the restaurant's timezone.
+  dayCutover: string;
+}
+
+export const businessDateString = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(date).forEach(({ type, value }) => {
+    if (type !== "literal") parts[type] = Number(value);
+  });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+
+function pad(value: number) {
+  return String(value).padStart(2, "0");
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+function dateString({ year, month, day }: { year: number; month: number; day: number }) {
+  return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+function parseDate(businessDate: string) {
+  const [year, month, day] = businessDate.split("-").map(Number);
+  return { year, month, day };
+}
+
+// How far the zone is ahead of UTC at this instant, in minutes.
+function offsetMinutes(date: Date, timeZone: string): number {
+  const parts = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The instant a wall-clock time happens in a timezone. The offsets a day
+// either side are the only ones it can be read with. A time the clocks pass
+// twice gives the first; a time they skip over gives the jump itself, when
+// the clock first reads later than it, so a cutover in the gap still starts
+// the day where businessDateFor says it starts.
+export function zonedTimeToInstant(businessDate: string, time: string, timeZone: string): Date {
+  const { year, month, day } = parseDate(businessDate);
+  const wallClock = Date.UTC(year, month - 1, day) + minutesOf(time) * 60000;
+  const candidates = [wallClock - DAY_MS, wallClock + DAY_MS].map(
+    (around) => wallClock - offsetMinutes(new Date(around), timeZone) * 60000,
+  );
+  const matching = candidates.filter(
+    (instant) => offsetMinutes(new Date(instant), timeZone) * 60000 === wallClock - instant,
+  );
+  if (matching.length > 0) return new Date(Math.min(...matching));
+
+  // Read with the old offset and the new, the time falls either side of the
+  // jump; narrow down to the minute it happens.
+  let before = Math.min(...candidates);
+  let after = Math.max(...candidates);
+  const offsetAfter = offsetMinutes(new Date(after), timeZone);
+  while (after - before > 60000) {
+    const middle = before + Math.floor((after - before) / 120000) * 60000;
+    if (offsetMinutes(new Date(middle), timeZone) === offsetAfter) after = middle;
+    else before = middle;
+  }
+  return new Date(after);
+}
+
+export function addBusinessDays(businessDate: string, days: number): string {
+  const { year, month, day } = parseDate(businessDate);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return dateString({
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+  });
+}
+
+// The business date an instant falls in.
+export function businessDateFor(instant: Date, settings: BusinessDaySettings): string {
+  const local = zonedParts(instant, settings.timezone);
+  const beforeCutover = local.hour * 60 + local.minute < minutesOf(settings.dayCutover);
+  return beforeCutover ? addBusinessDays(dateString(local), -1) : dateString(local);
+}
+
+export function businessDayStart(businessDate: string, settings: BusinessDaySettings): Date {
+  return zonedTimeToInstant(businessDate, settings.dayCutover, settings.timezone);
+}
+
+// [start of the first day, start of the day after the last): `to` inclusive.
+export function businessDayRange(
+  from: string,
+  to: string,
+  settings: BusinessDaySettings,
+): { from: Date; to: Date } {
+  return {
+    from: businessDayStart(from, settings),
+    to: businessDayStart(addBusinessDays(to, 1), settings),
+  };
+}
+
+// Minutes past midnight on the restaurant's wall clock, e.g. for happy hours.
+export function minuteOfDay(instant: Date, timeZone: string): number {
+  const { hour, minute } = zonedParts(instant, timeZone);
+  return hour * 60 + minute;
+}
+
+// Where an instant's bucket starts. Hours follow the wall clock; days, weeks
+// (from Monday) and months follow business days.
+export function bucketStart(
+  instant: Date,
+  bucket: "hour" | "day" | "week" | "month",
+  settings: BusinessDaySettings,
+): Date {
+  if (bucket === "hour") {
+    const local = zonedParts(instant, settings.timezone);
+    return zonedTimeToInstant(dateString(local), `${pad(local.hour)}:00`, settings.timezone);
+  }
+  const businessDate = businessDateFor(instant, settings);
+  if (bucket === "day") return businessDayStart(businessDate, settings);
+  if (bucket === "month") return businessDayStart(`${businessDate.slice(0, 8)}01`, settings);
+
+  const { year, month, day } = parseDate(businessDate);
+  const sinceMonday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+  return businessDayStart(addBusinessDays(businessDate, -sinceMonday), settings);
+}
+
+// Formats an instant on the restaurant's wall clock.
+export function formatInTimeZone(
+  instant: Date | string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions,
+): string {
+  return new Intl.DateTimeFormat("en-IN", { timeZone, ...options }).format(new Date(instant));
+}
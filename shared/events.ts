@@ -0,0 +1,62 @@
+import { z } from "zod";
+import {
+  currentShiftSchema,
+  orderWithItemsSchema,
+  selectBusinessDaySchema,
+  selectMenuItemSchema,
+  selectShiftSchema,
+  type OrderWithItems,
+} from "./schema";
+
+// Everything the server pushes to open screens. The server checks each event
+// against this schema before sending it and clients parse what they receive
+// with it, so both ends agree on the payload of every event type.
+export const serverEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("ORDER_CREATED"), order: orderWithItemsSchema }),
+  z.object({ type: z.literal("ORDER_UPDATED"), order: orderWithItemsSchema }),
+  // The order was cancelled, rejected or voided.
+  z.object({ type: z.literal("ORDER_CANCELLED"), order: orderWithItemsSchema }),
+  // Categories, items or modifiers were added, edited or removed.
+  z.object({ type: z.literal("MENU_CHANGED") }),
+  // An item was marked sold out or back in stock.
+  z.object({ type: z.literal("MENU_ITEM_AVAILABILITY"), item: selectMenuItemSchema }),
+  z.object({ type: z.literal("SHIFT_OPENED"), current: currentShiftSchema.unwrap() }),
+  z.object({ type: z.literal("SHIFT_CLOSED"), shift: selectShiftSchema }),
+  z.object({ type: z.literal("BUSINESS_DAY_CLOSED"), businessDay: selectBusinessDaySchema }),
+]);
+
+export type ServerEvent = z.infer<typeof serverEventSchema>;
+export type ServerEventType = ServerEvent["type"];
+export type ServerEventOf<T extends ServerEventType> = Extract<ServerEvent, { type: T }>;
+
+// What actually goes over the socket. Every event carries a sequence number
+// that only ever goes up, and each connection opens with a welcome giving the
+// latest one. A client that reconnects with ?epoch=...&since=<last seq seen>
+// is first sent the events it missed; resync means they are no longer all
+// held, so it should refetch instead. The epoch changes when the server
+// restarts and numbering starts over.
+//
+// A heartbeat goes out every HEARTBEAT_INTERVAL_MS, so a client that hears
+// nothing for much longer than that can treat the connection as dead.
+export const serverMessageSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("welcome"),
+    epoch: z.string(),
+    seq: z.number().int(),
+    resync: z.boolean(),
+  }),
+  z.object({ kind: z.literal("event"), seq: z.number().int(), event: serverEventSchema }),
+  z.object({ kind: z.literal("heartbeat") }),
+]);
+
+export const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+
+// The event for a change to an existing order.
+export function orderChangedEvent(
+  order: OrderWithItems,
+): ServerEventOf<"ORDER_UPDATED" | "ORDER_CANCELLED"> {
+  const cancelled = order.status === "cancelled" || order.status === "rejected";
+  return { type: cancelled ? "ORDER_CANCELLED" : "ORDER_UPDATED", order };
+}
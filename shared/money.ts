@@ -0,0 +1,18 @@
+// Prices travel as decimal strings ("12.50"), matching the numeric(10, 2)
+// columns. Arithmetic is done in integer cents so totals never drift.
+
+export const moneyString = /^\d+(\.\d{1,2})?$/;
+// Modifier price deltas may lower the price, e.g. a smaller size.
+export const signedMoneyString = /^-?\d+(\.\d{1,2})?$/;
+
+export function toCents(amount: string | number): number {
+  return Math.round(Number(amount) * 100);
+}
+
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export function lineTotalCents(item: { quantity: number; unitPrice: string }): number {
+  return item.quantity * toCents(item.unitPrice);
+}
@@ -0,0 +1,72 @@
+export const ORDER_STATUSES = [
+  "pending",
+  "accepted",
+  "preparing",
+  "ready",
+  "served",
+  "completed",
+  "cancelled",
+  "rejected",
+] as const;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+
+// Which statuses an order may move to from each status. The server rejects
+// anything not listed here, and the dashboard renders one action per entry.
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["accepted", "rejected", "cancelled"],
+  accepted: ["preparing", "cancelled"],
+  preparing: ["ready", "cancelled"],
+  ready: ["served", "cancelled"],
+  served: ["completed"],
+  completed: [],
+  cancelled: [],
+  rejected: [],
+};
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  preparing: "Preparing",
+  ready: "Ready",
+  served: "Served",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  rejected: "Rejected",
+};
+
+// Button text for moving an order *into* a status.
+export const ORDER_ACTION_LABELS: Record<OrderStatus, string> = {
+  pending: "Reopen",
+  accepted: "Accept",
+  preparing: "Start Preparing",
+  ready: "Mark Ready",
+  served: "Mark Served",
+  completed: "Complete",
+  cancelled: "Cancel",
+  rejected: "Reject",
+};
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+  return ORDER_STATUSES.includes(value as OrderStatus);
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+// Cancelling is a void: it goes through POST /api/orders/:id/void so the
+// reason and any sign-off are recorded. The status route refuses it.
+export function isVoidOnly(status: OrderStatus): boolean {
+  return status === "cancelled";
+}
+
+// Ending an order unfulfilled once money has been taken would leave the
+// payment behind; it has to be refunded instead.
+export function endsUnfulfilled(status: OrderStatus): boolean {
+  return status === "cancelled" || status === "rejected";
+}
+
+export function isTerminalStatus(status: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[status].length === 0;
+}
@@ -0,0 +1,27 @@
+export const PAYMENT_METHODS = ["cash", "card", "upi", "wallet"] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  card: "Card",
+  upi: "UPI",
+  wallet: "Wallet",
+};
+
+export const PAYMENT_STATUSES = ["unpaid", "partially_paid", "paid"] as const;
+
+export type PaymentStatus = (typeof PAYMENT_STATUSES)[number];
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  unpaid: "Unpaid",
+  partially_paid: "Partially paid",
+  paid: "Paid",
+};
+
+// Where an order stands given its total and what has been paid against it.
+// Orders that cost nothing are paid from the start.
+export function paymentStatusFor(totalCents: number, paidCents: number): PaymentStatus {
+  if (paidCents >= totalCents) return "paid";
+  return paidCents > 0 ? "partially_paid" : "unpaid";
+}
@@ -0,0 +1,86 @@
+import type { OrderStatus } from "./orderStatus";
+
+export const ROLES = ["owner", "manager", "cashier", "kitchen"] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export const PERMISSIONS = [
+  "orders:view",
+  "orders:create",
+  // Ringing up lines that aren't on the menu, at a price typed in at the till.
+  "orders:price",
+  "orders:prepare",
+  "orders:serve",
+  "orders:complete",
+  "orders:void",
+  "orders:refund",
+  "adjustments:approve",
+  "payments:settle",
+  "revenue:view",
+  "menu:manage",
+  "menu:availability",
+  "promotions:manage",
+  "staff:manage",
+  "settings:manage",
+  "shifts:manage",
+  "day:close",
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  manager: [
+    "orders:view",
+    "orders:create",
+    "orders:price",
+    "orders:prepare",
+    "orders:serve",
+    "orders:complete",
+    "orders:void",
+    "orders:refund",
+    "adjustments:approve",
+    "payments:settle",
+    "revenue:view",
+    "menu:manage",
+    "menu:availability",
+    "promotions:manage",
+    "shifts:manage",
+  ],
+  cashier: [
+    "orders:view",
+    "orders:create",
+    "orders:serve",
+    "orders:complete",
+    "orders:refund",
+    "payments:settle",
+    "revenue:view",
+    "menu:availability",
+    "shifts:manage",
+  ],
+  kitchen: ["orders:view", "orders:prepare", "menu:availability"],
+};
+
+// The permission needed to move an order *into* each status. Cancelling only
+// happens through a void, which checks the same permission.
+export const STATUS_PERMISSIONS: Record<OrderStatus, Permission> = {
+  pending: "orders:void",
+  accepted: "orders:prepare",
+  preparing: "orders:prepare",
+  ready: "orders:prepare",
+  served: "orders:serve",
+  completed: "orders:complete",
+  cancelled: "orders:void",
+  rejected: "orders:void",
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  cashier: "Cashier",
+  kitchen: "Kitchen",
+};
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
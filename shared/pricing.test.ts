@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest";
+import { calculateOrderTotals, formatOrderTotals, type PricingLine } from "./pricing";
+
+const line = (quantity: number, unitPrice: string, taxRate = "0", discountCents?: number): PricingLine => ({
+  quantity,
+  unitPrice,
+  taxRate,
+  discountCents,
+});
+
+describe("calculateOrderTotals", () => {
+  it("adds GST line by line at each line's rate", () => {
+    const totals = calculateOrderTotals([line(2, "100.00", "5"), line(1, "50.00", "18")]);
+
+    expect(totals.lines).toEqual([
+      { subtotalCents: 20000, discountCents: 0, taxCents: 1000 },
+      { subtotalCents: 5000, discountCents: 0, taxCents: 900 },
+    ]);
+    expect(formatOrderTotals(totals)).toEqual({
+      subtotal: "250.00",
+      discountTotal: "0.00",
+      taxTotal: "19.00",
+      serviceCharge: "0.00",
+      roundingAdjustment: "0.00",
+      totalPrice: "269.00",
+    });
+  });
+
+  it("rounds tax to the nearest paisa on each line", () => {
+    const totals = calculateOrderTotals([line(1, "0.99", "5"), line(1, "0.10", "5")]);
+
+    expect(totals.lines.map((l) => l.taxCents)).toEqual([5, 1]);
+    expect(totals.taxCents).toBe(6);
+  });
+
+  it("taxes what is left after discounts", () => {
+    const totals = calculateOrderTotals([line(1, "100.00", "18", 2000)]);
+
+    expect(totals.lines[0]).toEqual({ subtotalCents: 10000, discountCents: 2000, taxCents: 1440 });
+    expect(totals.totalCents).toBe(9440);
+  });
+
+  it("never discounts a line below zero", () => {
+    const totals = calculateOrderTotals([line(1, "10.00", "5", 1500)], { orderDiscountCents: 500 });
+
+    expect(totals.lines[0]).toEqual({ subtotalCents: 1000, discountCents: 1000, taxCents: 0 });
+    expect(totals.totalCents).toBe(0);
+  });
+
+  it("caps the order discount at what the lines come to", () => {
+    const totals = calculateOrderTotals([line(1, "20.00"), line(1, "10.00")], {
+      orderDiscountCents: 5000,
+    });
+
+    expect(totals.lines.map((l) => l.discountCents)).toEqual([2000, 1000]);
+    expect(totals.discountCents).toBe(3000);
+    expect(totals.totalCents).toBe(0);
+  });
+});
+
+describe("order discount allocation", () => {
+  it("spreads the discount over the lines pro rata", () => {
+    const totals = calculateOrderTotals([line(2, "100.00"), line(1, "100.00")], {
+      orderDiscountCents: 3000,
+    });
+
+    expect(totals.lines.map((l) => l.discountCents)).toEqual([2000, 1000]);
+  });
+
+  it("weighs lines by what is left after their own discounts", () => {
+    const totals = calculateOrderTotals([line(1, "10.00", "0", 500), line(1, "5.00")], {
+      orderDiscountCents: 100,
+    });
+
+    expect(totals.lines.map((l) => l.discountCents)).toEqual([550, 50]);
+  });
+
+  it("hands leftover paise to the largest remainders", () => {
+    const uneven = calculateOrderTotals([line(1, "10.00"), line(1, "20.00")], {
+      orderDiscountCents: 100,
+    });
+    expect(uneven.lines.map((l) => l.discountCents)).toEqual([33, 67]);
+
+    const even = calculateOrderTotals([line(1, "1.00"), line(1, "1.00"), line(1, "1.00")], {
+      orderDiscountCents: 100,
+    });
+    expect(even.lines.map((l) => l.discountCents)).toEqual([34, 33, 33]);
+  });
+
+  it("always adds up to the discount given", () => {
+    const lines = [line(3, "7.33"), line(1, "12.49"), line(7, "0.99"), line(2, "45.10")];
+
+    for (const orderDiscountCents of [1, 7, 99, 1001, 4321]) {
+      const totals = calculateOrderTotals(lines, { orderDiscountCents });
+      expect(totals.lines.reduce((sum, l) => sum + l.discountCents, 0)).toBe(orderDiscountCents);
+      totals.lines.forEach((l) => expect(l.discountCents).toBeLessThanOrEqual(l.subtotalCents));
+    }
+  });
+
+  it("gives nothing to lines that are already free", () => {
+    const totals = calculateOrderTotals([line(1, "10.00", "0", 1000)], { orderDiscountCents: 100 });
+
+    expect(totals.lines[0].discountCents).toBe(1000);
+    expect(totals.discountCents).toBe(1000);
+  });
+});
+
+describe("service charge and rounding", () => {
+  it("charges service on the discounted subtotal, not the tax", () => {
+    const totals = calculateOrderTotals([line(1, "100.00", "5")], {
+      orderDiscountCents: 1000,
+      serviceChargeRate: "10",
+    });
+
+    expect(totals).toMatchObject({ taxCents: 450, serviceChargeCents: 900, totalCents: 10350 });
+  });
+
+  it("takes fractional rates", () => {
+    const totals = calculateOrderTotals([line(1, "10.00")], { serviceChargeRate: "2.5" });
+
+    expect(totals.serviceChargeCents).toBe(25);
+  });
+
+  it("rounds the grand total to the increment and records the difference", () => {
+    const down = calculateOrderTotals([line(1, "10.25")], { roundingIncrement: 100 });
+    expect(down).toMatchObject({ roundingCents: -25, totalCents: 1000 });
+
+    const up = calculateOrderTotals([line(1, "10.50")], { roundingIncrement: 100 });
+    expect(up).toMatchObject({ roundingCents: 50, totalCents: 1100 });
+
+    const fives = calculateOrderTotals([line(1, "10.03")], { roundingIncrement: 5 });
+    expect(fives).toMatchObject({ roundingCents: 2, totalCents: 1005 });
+  });
+
+  it("leaves the total alone without an increment", () => {
+    const totals = calculateOrderTotals([line(1, "10.03")], { roundingIncrement: 0 });
+
+    expect(totals).toMatchObject({ roundingCents: 0, totalCents: 1003 });
+  });
+});
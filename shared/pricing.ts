@@ -0,0 +1,127 @@
+import { fromCents, toCents } from "./money";
+
+// GST slabs, as percentages. Every menu item and order line carries one.
+export const TAX_SLABS = ["0", "5", "12", "18", "28"] as const;
+export type TaxSlab = (typeof TAX_SLABS)[number];
+export const DEFAULT_TAX_RATE: TaxSlab = "5";
+
+export interface PricingLine {
+  quantity: number;
+  unitPrice: string;
+  taxRate: string;
+  // Discount already attached to this line (e.g. a per-item promotion).
+  discountCents?: number;
+}
+
+export interface PricingOptions {
+  // Discount on the whole order, spread over the lines pro rata.
+  orderDiscountCents?: number;
+  serviceChargeRate?: string;
+  // Totals are rounded to a multiple of this many paise (100 = whole rupees).
+  roundingIncrement?: number;
+}
+
+export interface LineTotals {
+  subtotalCents: number;
+  discountCents: number;
+  taxCents: number;
+}
+
+export interface OrderTotals {
+  lines: LineTotals[];
+  subtotalCents: number;
+  discountCents: number;
+  taxCents: number;
+  serviceChargeCents: number;
+  roundingCents: number;
+  totalCents: number;
+}
+
+// "18" -> 1800 basis points, so rates can be applied in integer maths.
+function toBasisPoints(rate: string): number {
+  return Math.round(Number(rate) * 100);
+}
+
+function applyRate(amountCents: number, rate: string): number {
+  return Math.round((amountCents * toBasisPoints(rate)) / 10000);
+}
+
+// Splits `total` across `weights` proportionally, handing leftover paise to
+// the largest remainders so the parts always add up to exactly `total`.
+function allocate(total: number, weights: number[]): number[] {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (total === 0 || weightSum === 0) return weights.map(() => 0);
+
+  const exact = weights.map((weight) => (total * weight) / weightSum);
+  const parts = exact.map(Math.floor);
+  let leftover = total - parts.reduce((sum, part) => sum + part, 0);
+
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    parts[index] += 1;
+    leftover -= 1;
+  }
+  return parts;
+}
+
+// Subtotal, then discounts (line discounts first, then the order discount
+// pro rata), then GST per line on what is left, then service charge on the
+// discounted subtotal, then rounding of the grand total.
+export function calculateOrderTotals(
+  lines: PricingLine[],
+  { orderDiscountCents = 0, serviceChargeRate = "0", roundingIncrement = 1 }: PricingOptions = {},
+): OrderTotals {
+  const subtotals = lines.map((line) => line.quantity * toCents(line.unitPrice));
+  const lineDiscounts = lines.map((line, index) =>
+    Math.min(line.discountCents ?? 0, subtotals[index]),
+  );
+  const afterLineDiscounts = subtotals.map((subtotal, index) => subtotal - lineDiscounts[index]);
+  const orderDiscountTotal = Math.min(
+    orderDiscountCents,
+    afterLineDiscounts.reduce((sum, amount) => sum + amount, 0),
+  );
+  const orderDiscounts = allocate(orderDiscountTotal, afterLineDiscounts);
+
+  const lineTotals: LineTotals[] = lines.map((line, index) => {
+    const discountCents = lineDiscounts[index] + orderDiscounts[index];
+    return {
+      subtotalCents: subtotals[index],
+      discountCents,
+      taxCents: applyRate(subtotals[index] - discountCents, line.taxRate),
+    };
+  });
+
+  const subtotalCents = lineTotals.reduce((sum, line) => sum + line.subtotalCents, 0);
+  const discountCents = lineTotals.reduce((sum, line) => sum + line.discountCents, 0);
+  const taxCents = lineTotals.reduce((sum, line) => sum + line.taxCents, 0);
+  const serviceChargeCents = applyRate(subtotalCents - discountCents, serviceChargeRate);
+
+  const unrounded = subtotalCents - discountCents + taxCents + serviceChargeCents;
+  const increment = Math.max(1, roundingIncrement);
+  const totalCents = Math.round(unrounded / increment) * increment;
+
+  return {
+    lines: lineTotals,
+    subtotalCents,
+    discountCents,
+    taxCents,
+    serviceChargeCents,
+    roundingCents: totalCents - unrounded,
+    totalCents,
+  };
+}
+
+// The same totals as decimal strings, shaped like the order columns.
+export function formatOrderTotals(totals: OrderTotals) {
+  return {
+    subtotal: fromCents(totals.subtotalCents),
+    discountTotal: fromCents(totals.discountCents),
+    taxTotal: fromCents(totals.taxCents),
+    serviceCharge: fromCents(totals.serviceChargeCents),
+    roundingAdjustment: fromCents(totals.roundingCents),
+    totalPrice: fromCents(totals.totalCents),
+  };
+}
@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import { evaluatePromotions, isPromotionLive, type PromotionLine, type PromotionRule } from "./promotions";
+
+function promotion(overrides: Partial<PromotionRule>): PromotionRule {
+  return {
+    id: "promo",
+    name: "Promo",
+    code: null,
+    kind: "percentage",
+    scope: "order",
+    value: "10",
+    menuItemId: null,
+    buyQuantity: null,
+    getQuantity: null,
+    startsAt: null,
+    endsAt: null,
+    dailyStartTime: null,
+    dailyEndTime: null,
+    isActive: true,
+    ...overrides,
+  };
+}
+
+const tea = (quantity: number, unitPrice = "20.00"): PromotionLine => ({
+  menuItemId: "tea",
+  quantity,
+  unitPrice,
+});
+
+const samosa = (quantity: number): PromotionLine => ({
+  menuItemId: "samosa",
+  quantity,
+  unitPrice: "15.00",
+});
+
+describe("evaluatePromotions", () => {
+  it("takes a percentage off the matching lines", () => {
+    const teaTime = promotion({ id: "tea-10", name: "Tea time", scope: "item", menuItemId: "tea" });
+    const result = evaluatePromotions([teaTime], [tea(3), samosa(2)]);
+
+    expect(result).toEqual({
+      lineDiscountCents: [600, 0],
+      orderDiscountCents: 0,
+      applied: [{ promotionId: "tea-10", name: "Tea time", code: null, amount: "6.00" }],
+    });
+  });
+
+  it("takes a flat amount off each unit of the matching lines", () => {
+    const result = evaluatePromotions(
+      [promotion({ kind: "flat", value: "5", scope: "item", menuItemId: "samosa" })],
+      [tea(3), samosa(2)],
+    );
+
+    expect(result.lineDiscountCents).toEqual([0, 1000]);
+  });
+
+  describe("buy X get Y", () => {
+    const buyTwoGetOne = promotion({
+      kind: "buy_x_get_y",
+      scope: "item",
+      menuItemId: "tea",
+      buyQuantity: 2,
+      getQuantity: 1,
+    });
+
+    it("gives Y free for every full group of X + Y", () => {
+      expect(evaluatePromotions([buyTwoGetOne], [tea(2)]).lineDiscountCents).toEqual([0]);
+      expect(evaluatePromotions([buyTwoGetOne], [tea(3)]).lineDiscountCents).toEqual([2000]);
+      expect(evaluatePromotions([buyTwoGetOne], [tea(5)]).lineDiscountCents).toEqual([2000]);
+      expect(evaluatePromotions([buyTwoGetOne], [tea(6)]).lineDiscountCents).toEqual([4000]);
+    });
+
+    it("counts units across lines and frees the cheapest", () => {
+      const result = evaluatePromotions([buyTwoGetOne], [tea(1, "25.00"), samosa(3), tea(2, "20.00")]);
+
+      expect(result.lineDiscountCents).toEqual([0, 0, 2000]);
+      expect(result.applied.map((applied) => applied.amount)).toEqual(["20.00"]);
+    });
+
+    it("spills over to the next cheapest line", () => {
+      const buyOneGetOne = { ...buyTwoGetOne, buyQuantity: 1 };
+      const result = evaluatePromotions([buyOneGetOne], [tea(3, "25.00"), tea(1, "20.00")]);
+
+      expect(result.lineDiscountCents).toEqual([2500, 2000]);
+    });
+
+    it("does nothing without quantities", () => {
+      const result = evaluatePromotions(
+        [{ ...buyTwoGetOne, buyQuantity: null, getQuantity: null }],
+        [tea(6)],
+      );
+
+      expect(result).toEqual({ lineDiscountCents: [0], orderDiscountCents: 0, applied: [] });
+    });
+  });
+
+  describe("stacking", () => {
+    it("applies item promotions before order promotions, whatever the list order", () => {
+      const tenOff = promotion({ id: "order-10", name: "Ten off" });
+      const teaFlat = promotion({
+        id: "tea-5",
+        name: "Tea deal",
+        kind: "flat",
+        value: "5",
+        scope: "item",
+        menuItemId: "tea",
+      });
+      const result = evaluatePromotions([tenOff, teaFlat], [tea(3), samosa(2)]);
+
+      // 90.00 of food, 15.00 off the tea, then 10% of the 75.00 left.
+      expect(result.lineDiscountCents).toEqual([1500, 0]);
+      expect(result.orderDiscountCents).toBe(750);
+      expect(result.applied.map(({ promotionId, amount }) => [promotionId, amount])).toEqual([
+        ["tea-5", "15.00"],
+        ["order-10", "7.50"],
+      ]);
+    });
+
+    it("applies order promotions one after another, each on what is left", () => {
+      const flat = promotion({ kind: "flat", value: "10" });
+      const percent = promotion({ kind: "percentage", value: "10" });
+
+      expect(evaluatePromotions([flat, percent], [tea(3), samosa(2)]).orderDiscountCents).toBe(1800);
+      expect(evaluatePromotions([percent, flat], [tea(3), samosa(2)]).orderDiscountCents).toBe(1900);
+    });
+
+    it("stacks item promotions on the same line", () => {
+      const result = evaluatePromotions(
+        [
+          promotion({ scope: "item", menuItemId: "tea", value: "50" }),
+          promotion({ scope: "item", menuItemId: "tea", kind: "flat", value: "5" }),
+        ],
+        [tea(2)],
+      );
+
+      expect(result.lineDiscountCents).toEqual([3000]);
+    });
+  });
+
+  describe("clamping at zero", () => {
+    it("never takes a line below zero", () => {
+      const result = evaluatePromotions(
+        [
+          promotion({ id: "big", scope: "item", menuItemId: "samosa", kind: "flat", value: "30" }),
+          promotion({ id: "more", scope: "item", menuItemId: "samosa", kind: "flat", value: "1" }),
+        ],
+        [samosa(2)],
+      );
+
+      expect(result.lineDiscountCents).toEqual([3000]);
+      // Nothing was left for the second one, so it isn't listed.
+      expect(result.applied.map((applied) => applied.promotionId)).toEqual(["big"]);
+    });
+
+    it("never takes the order below zero", () => {
+      const result = evaluatePromotions(
+        [
+          promotion({ id: "tea-half", scope: "item", menuItemId: "tea", value: "50" }),
+          promotion({ id: "huge", kind: "flat", value: "500" }),
+          promotion({ id: "after", kind: "flat", value: "1" }),
+        ],
+        [tea(3), samosa(2)],
+      );
+
+      expect(result.orderDiscountCents).toBe(6000);
+      expect(result.applied.map(({ promotionId, amount }) => [promotionId, amount])).toEqual([
+        ["tea-half", "30.00"],
+        ["huge", "60.00"],
+      ]);
+    });
+  });
+});
+
+describe("isPromotionLive", () => {
+  const zone = "Asia/Kolkata";
+  // 12:00 UTC is 17:30 in Kolkata.
+  const at = (utc: string) => new Date(`2024-06-01T${utc}:00Z`);
+
+  it("is off while switched off", () => {
+    expect(isPromotionLive(promotion({ isActive: false }), at("12:00"), zone)).toBe(false);
+    expect(isPromotionLive(promotion({}), at("12:00"), zone)).toBe(true);
+  });
+
+  it("runs from its start up to, not including, its end", () => {
+    const summer = promotion({ startsAt: at("12:00"), endsAt: at("14:00") });
+
+    expect(isPromotionLive(summer, at("11:59"), zone)).toBe(false);
+    expect(isPromotionLive(summer, at("12:00"), zone)).toBe(true);
+    expect(isPromotionLive(summer, at("13:59"), zone)).toBe(true);
+    expect(isPromotionLive(summer, at("14:00"), zone)).toBe(false);
+  });
+
+  it("keeps a happy hour to its window on the restaurant's clock", () => {
+    const happyHour = promotion({ dailyStartTime: "17:00", dailyEndTime: "19:00" });
+
+    expect(isPromotionLive(happyHour, at("11:29"), zone)).toBe(false);
+    expect(isPromotionLive(happyHour, at("11:30"), zone)).toBe(true);
+    expect(isPromotionLive(happyHour, at("13:29"), zone)).toBe(true);
+    expect(isPromotionLive(happyHour, at("13:30"), zone)).toBe(false);
+    // The same instant is 13:00 in London, outside the window there.
+    expect(isPromotionLive(happyHour, at("12:00"), "Europe/London")).toBe(false);
+  });
+
+  it("runs a window that ends before it starts past midnight", () => {
+    const lateNight = promotion({ dailyStartTime: "22:00", dailyEndTime: "02:00" });
+
+    expect(isPromotionLive(lateNight, at("16:29"), zone)).toBe(false);
+    expect(isPromotionLive(lateNight, at("16:30"), zone)).toBe(true);
+    expect(isPromotionLive(lateNight, at("18:30"), zone)).toBe(true);
+    expect(isPromotionLive(lateNight, at("20:29"), zone)).toBe(true);
+    expect(isPromotionLive(lateNight, at("20:30"), zone)).toBe(false);
+  });
+
+  it("needs both ends of a daily window to keep to one", () => {
+    const openEnded = promotion({ dailyStartTime: "22:00" });
+
+    expect(isPromotionLive(openEnded, at("12:00"), zone)).toBe(true);
+  });
+});
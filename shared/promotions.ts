@@ -0,0 +1,162 @@
+import { fromCents, toCents } from "./money";
+import { minuteOfDay } from "./businessDay";
+import type { AppliedPromotion } from "./schema";
+
+export const PROMOTION_KINDS = ["percentage", "flat", "buy_x_get_y"] as const;
+export type PromotionKind = (typeof PROMOTION_KINDS)[number];
+
+// "item" promotions discount the lines for one menu item; "order" promotions
+// discount whatever is left of the order after item promotions.
+export const PROMOTION_SCOPES = ["item", "order"] as const;
+export type PromotionScope = (typeof PROMOTION_SCOPES)[number];
+
+export const PROMOTION_KIND_LABELS: Record<PromotionKind, string> = {
+  percentage: "Percentage off",
+  flat: "Flat amount off",
+  buy_x_get_y: "Buy X get Y free",
+};
+
+// "HH:MM", 24-hour clock.
+export const timeOfDay = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+// The fields of a promotion the engine looks at.
+export interface PromotionRule {
+  id: string;
+  name: string;
+  code: string | null;
+  kind: PromotionKind;
+  scope: PromotionScope;
+  // A percentage for "percentage", rupees for "flat" (per unit on items).
+  value: string;
+  menuItemId: string | null;
+  buyQuantity: number | null;
+  getQuantity: number | null;
+  startsAt: Date | null;
+  endsAt: Date | null;
+  dailyStartTime: string | null;
+  dailyEndTime: string | null;
+  isActive: boolean;
+}
+
+export interface PromotionLine {
+  menuItemId?: string | null;
+  quantity: number;
+  unitPrice: string;
+}
+
+export interface PromotionResult {
+  lineDiscountCents: number[];
+  orderDiscountCents: number;
+  applied: AppliedPromotion[];
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+// Whether a promotion can apply at `now`: switched on, inside its date range
+// and, for happy hours, inside its daily window on the restaurant's clock. A
+// window whose end is before its start runs past midnight.
+export function isPromotionLive(promotion: PromotionRule, now: Date, timeZone: string): boolean {
+  if (!promotion.isActive) return false;
+  if (promotion.startsAt && now < new Date(promotion.startsAt)) return false;
+  if (promotion.endsAt && now >= new Date(promotion.endsAt)) return false;
+
+  if (promotion.dailyStartTime && promotion.dailyEndTime) {
+    const minute = minuteOfDay(now, timeZone);
+    const start = minutesOf(promotion.dailyStartTime);
+    const end = minutesOf(promotion.dailyEndTime);
+    const inWindow =
+      start <= end ? minute >= start && minute < end : minute >= start || minute < end;
+    if (!inWindow) return false;
+  }
+  return true;
+}
+
+function percentOf(amountCents: number, percent: string): number {
+  return Math.round((amountCents * Math.round(Number(percent) * 100)) / 10000);
+}
+
+// Works out what each promotion takes off. Item promotions go first and land
+// on the lines they match; order promotions then apply to what remains. No
+// line or order is ever discounted below zero.
+export function evaluatePromotions(
+  promotions: PromotionRule[],
+  lines: PromotionLine[],
+): PromotionResult {
+  const subtotals = lines.map((line) => line.quantity * toCents(line.unitPrice));
+  const lineDiscountCents = lines.map(() => 0);
+  const applied: AppliedPromotion[] = [];
+
+  const record = (promotion: PromotionRule, amountCents: number) => {
+    if (amountCents <= 0) return;
+    applied.push({
+      promotionId: promotion.id,
+      name: promotion.name,
+      code: promotion.code,
+      amount: fromCents(amountCents),
+    });
+  };
+
+  const itemPromotions = promotions.filter((promotion) => promotion.scope === "item");
+  const orderPromotions = promotions.filter((promotion) => promotion.scope === "order");
+
+  for (const promotion of itemPromotions) {
+    const matching = lines
+      .map((line, index) => index)
+      .filter((index) => lines[index].menuItemId === promotion.menuItemId);
+    let total = 0;
+
+    const discountLine = (index: number, wanted: number) => {
+      const amount = Math.min(wanted, subtotals[index] - lineDiscountCents[index]);
+      lineDiscountCents[index] += amount;
+      total += amount;
+    };
+
+    if (promotion.kind === "buy_x_get_y") {
+      // Every group of buy + get units earns `get` free units, the cheapest
+      // ones first since modifiers can make units of one item differ.
+      const buy = promotion.buyQuantity ?? 0;
+      const get = promotion.getQuantity ?? 0;
+      const unitCount = matching.reduce((sum, index) => sum + lines[index].quantity, 0);
+      let free = buy + get > 0 ? Math.floor(unitCount / (buy + get)) * get : 0;
+      matching
+        .slice()
+        .sort((a, b) => toCents(lines[a].unitPrice) - toCents(lines[b].unitPrice))
+        .forEach((index) => {
+          const units = Math.min(free, lines[index].quantity);
+          if (units > 0) discountLine(index, units * toCents(lines[index].unitPrice));
+          free -= units;
+        });
+    } else {
+      for (const index of matching) {
+        discountLine(
+          index,
+          promotion.kind === "percentage"
+            ? percentOf(subtotals[index], promotion.value)
+            : lines[index].quantity * toCents(promotion.value),
+        );
+      }
+    }
+    record(promotion, total);
+  }
+
+  let remaining =
+    subtotals.reduce((sum, subtotal) => sum + subtotal, 0) -
+    lineDiscountCents.reduce((sum, discount) => sum + discount, 0);
+  let orderDiscountCents = 0;
+
+  for (const promotion of orderPromotions) {
+    const wanted =
+      promotion.kind === "percentage"
+        ? percentOf(remaining, promotion.value)
+        : toCents(promotion.value);
+    const amount = Math.min(wanted, remaining);
+    remaining -= amount;
+    orderDiscountCents += amount;
+    record(promotion, amount);
+  }
+
+  return { lineDiscountCents, orderDiscountCents, applied };
+}
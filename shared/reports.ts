@@ -0,0 +1,151 @@
+import { z } from "zod";
+import {
+  selectShiftSchema,
+  type OrderAdjustment,
+  type OrderWithItems,
+  type Shift,
+} from "./schema";
+import { ORDER_STATUSES, type OrderStatus } from "./orderStatus";
+import { PAYMENT_METHODS } from "./payments";
+import { fromCents, toCents } from "./money";
+
+// Cancelled and rejected orders never became sales, so they are left out of
+// the sales figures (their voids are counted separately).
+const NON_SALE_STATUSES: readonly OrderStatus[] = ["cancelled", "rejected"];
+
+export const tenderSummarySchema = z.object({
+  method: z.enum(PAYMENT_METHODS),
+  payments: z.number(),
+  received: z.string(),
+  refunded: z.string(),
+  net: z.string(),
+});
+
+export const statusSummarySchema = z.object({
+  status: z.enum(ORDER_STATUSES),
+  count: z.number(),
+  total: z.string(),
+});
+
+export const cashReconciliationSchema = z.object({
+  openingFloat: z.string(),
+  cashReceived: z.string(),
+  cashRefunded: z.string(),
+  expected: z.string(),
+  // Null until the shift is closed and the drawer counted.
+  counted: z.string().nullable(),
+  variance: z.string().nullable(),
+});
+
+// End-of-shift takings, built only from what the server stored for the
+// shift's orders and payments and the adjustments booked to it.
+export const zReportSchema = z.object({
+  shift: selectShiftSchema,
+  generatedAt: z.string(),
+  orderCount: z.number(),
+  grossSales: z.string(),
+  discounts: z.string(),
+  netSales: z.string(),
+  taxes: z.string(),
+  serviceCharge: z.string(),
+  rounding: z.string(),
+  totalSales: z.string(),
+  refunds: z.string(),
+  voids: z.object({ count: z.number(), amount: z.string() }),
+  // Billed on sale orders but not paid yet.
+  outstanding: z.string(),
+  tenders: z.array(tenderSummarySchema),
+  ordersByStatus: z.array(statusSummarySchema),
+  cash: cashReconciliationSchema,
+});
+
+export type TenderSummary = z.infer<typeof tenderSummarySchema>;
+export type StatusSummary = z.infer<typeof statusSummarySchema>;
+export type CashReconciliation = z.infer<typeof cashReconciliationSchema>;
+export type ZReport = z.infer<typeof zReportSchema>;
+
+function sumCents<T>(rows: readonly T[], amount: (row: T) => string): number {
+  return rows.reduce((sum, row) => sum + toCents(amount(row)), 0);
+}
+
+// Adjustments are the ones booked to the shift, which can include refunds on
+// orders from earlier shifts.
+export function buildZReport(
+  shift: Shift,
+  orders: OrderWithItems[],
+  adjustments: OrderAdjustment[],
+  now = new Date(),
+): ZReport {
+  const sales = orders.filter((order) => !NON_SALE_STATUSES.includes(order.status));
+  const payments = orders.flatMap((order) => order.payments);
+  const refunds = adjustments.filter((adjustment) => adjustment.kind === "refund");
+  const voids = adjustments.filter((adjustment) => adjustment.kind === "void");
+
+  const grossCents = sumCents(sales, (order) => order.subtotal);
+  const discountCents = sumCents(sales, (order) => order.discountTotal);
+  const outstandingCents = sales.reduce(
+    (sum, order) =>
+      sum + Math.max(toCents(order.totalPrice) - sumCents(order.payments, (p) => p.amount), 0),
+    0,
+  );
+
+  const tenders = PAYMENT_METHODS.map((method): TenderSummary => {
+    const received = payments.filter((payment) => payment.method === method);
+    const receivedCents = sumCents(received, (payment) => payment.amount);
+    const refundedCents = sumCents(
+      refunds.filter((refund) => refund.method === method),
+      (refund) => refund.amount,
+    );
+    return {
+      method,
+      payments: received.length,
+      received: fromCents(receivedCents),
+      refunded: fromCents(refundedCents),
+      net: fromCents(receivedCents - refundedCents),
+    };
+  });
+
+  const ordersByStatus = ORDER_STATUSES.map((status): StatusSummary => {
+    const matching = orders.filter((order) => order.status === status);
+    return {
+      status,
+      count: matching.length,
+      total: fromCents(sumCents(matching, (order) => order.totalPrice)),
+    };
+  }).filter((summary) => summary.count > 0);
+
+  const cash = tenders.find((tender) => tender.method === "cash")!;
+  const expectedCents = toCents(shift.openingFloat) + toCents(cash.net);
+
+  return {
+    shift,
+    generatedAt: now.toISOString(),
+    orderCount: orders.length,
+    grossSales: fromCents(grossCents),
+    discounts: fromCents(discountCents),
+    netSales: fromCents(grossCents - discountCents),
+    taxes: fromCents(sumCents(sales, (order) => order.taxTotal)),
+    serviceCharge: fromCents(sumCents(sales, (order) => order.serviceCharge)),
+    rounding: fromCents(sumCents(sales, (order) => order.roundingAdjustment)),
+    totalSales: fromCents(sumCents(sales, (order) => order.totalPrice)),
+    refunds: fromCents(sumCents(refunds, (refund) => refund.amount)),
+    voids: {
+      count: voids.length,
+      amount: fromCents(sumCents(voids, (adjustment) => adjustment.amount)),
+    },
+    outstanding: fromCents(outstandingCents),
+    tenders,
+    ordersByStatus,
+    cash: {
+      openingFloat: fromCents(toCents(shift.openingFloat)),
+      cashReceived: cash.received,
+      cashRefunded: cash.refunded,
+      expected: fromCents(expectedCents),
+      counted: shift.closingCash === null ? null : fromCents(toCents(shift.closingCash)),
+      variance:
+        shift.closingCash === null
+          ? null
+          : fromCents(toCents(shift.closingCash) - expectedCents),
+    },
+  };
+}
@@ -1,22 +1,695 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, decimal, timestamp, integer } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
+import { sql, relations } from "drizzle-orm";
+import { pgTable, text, varchar, decimal, timestamp, date, integer, boolean, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { createInsertSchema, createSelectSchema } from "drizzle-zod";
 import { z } from "zod";
+import { ORDER_STATUSES } from "./orderStatus";
+import { ROLES } from "./permissions";
+import { moneyString, signedMoneyString } from "./money";
+import { DEFAULT_TAX_RATE, TAX_SLABS } from "./pricing";
+import { PROMOTION_KINDS, PROMOTION_SCOPES, timeOfDay } from "./promotions";
+import { PAYMENT_METHODS, PAYMENT_STATUSES } from "./payments";
+import { ADJUSTMENT_KINDS, REFUND_REASONS, VOID_REASONS } from "./adjustments";
+import { DEFAULT_DAY_CUTOVER, DEFAULT_TIMEZONE, isValidTimeZone } from "./businessDay";
+
+export const restaurants = pgTable("restaurants", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // Percentage added on the discounted subtotal of every order.
+  serviceChargeRate: decimal("service_charge_rate", { precision: 5, scale: 2 }).notNull().default("0"),
+  // Order totals are rounded to a multiple of this many paise.
+  roundingIncrement: integer("rounding_increment").notNull().default(100),
+  // Staff without approval rights need a manager to sign off voids when set,
+  // and refunds above the limit (null: no limit).
+  voidApprovalRequired: boolean("void_approval_required").notNull().default(false),
+  refundApprovalLimit: decimal("refund_approval_limit", { precision: 10, scale: 2 }),
+  // IANA timezone. Business days run from dayCutover ("HH:MM") to the same
+  // time the next day, on this timezone's clock.
+  timezone: text("timezone").notNull().default(DEFAULT_TIMEZONE),
+  dayCutover: text("day_cutover").notNull().default(DEFAULT_DAY_CUTOVER),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// A trading day. It stays open across shifts until someone closes the day;
+// the next shift to open starts a new one.
+export const businessDays = pgTable("business_days", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  restaurantId: varchar("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id),
+  businessDate: date("business_date", { mode: "string" }).notNull(),
+  openedAt: timestamp("opened_at").notNull().defaultNow(),
+  closedAt: timestamp("closed_at"),
+  closedBy: text("closed_by"),
+}, (table) => [
+  uniqueIndex("business_days_restaurant_date_idx").on(table.restaurantId, table.businessDate),
+]);
+
+// At most one shift per restaurant is open at a time. Orders belong to the
+// shift that was open when they came in, and are locked once it closes.
+export const shifts = pgTable("shifts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  restaurantId: varchar("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id),
+  businessDayId: varchar("business_day_id")
+    .notNull()
+    .references(() => businessDays.id),
+  openedBy: text("opened_by").notNull(),
+  openingFloat: decimal("opening_float", { precision: 10, scale: 2 }).notNull().default("0"),
+  openedAt: timestamp("opened_at").notNull().defaultNow(),
+  closedBy: text("closed_by"),
+  closingCash: decimal("closing_cash", { precision: 10, scale: 2 }),
+  closedAt: timestamp("closed_at"),
+  notes: text("notes"),
+}, (table) => [
+  index("shifts_restaurant_id_idx").on(table.restaurantId),
+  uniqueIndex("shifts_one_open_per_restaurant_idx")
+    .on(table.restaurantId)
+    .where(sql`${table.closedAt} is null`),
+]);
+
+// What an order records about each promotion that reduced it.
+export const appliedPromotionSchema = z.object({
+  promotionId: z.string(),
+  name: z.string(),
+  code: z.string().nullable(),
+  amount: z.string().regex(moneyString),
+});
+
+export type AppliedPromotion = z.infer<typeof appliedPromotionSchema>;
 
 export const orders = pgTable("orders", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  restaurantId: varchar("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id),
   orderNumber: integer("order_number").notNull(),
   customerName: text("customer_name").notNull(),
-  items: text("items").array().notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  discountTotal: decimal("discount_total", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxTotal: decimal("tax_total", { precision: 10, scale: 2 }).notNull().default("0"),
+  serviceCharge: decimal("service_charge", { precision: 10, scale: 2 }).notNull().default("0"),
+  roundingAdjustment: decimal("rounding_adjustment", { precision: 10, scale: 2 }).notNull().default("0"),
   totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull().default("pending"),
+  // The promotions that made up discountTotal, as they were when ordered.
+  appliedPromotions: jsonb("applied_promotions").$type<AppliedPromotion[]>().notNull().default([]),
+  status: text("status", { enum: ORDER_STATUSES }).notNull().default("pending"),
+  // Kept in step with the payments table; an order can't be completed until paid.
+  paymentStatus: text("payment_status", { enum: PAYMENT_STATUSES }).notNull().default("unpaid"),
+  // Money given back so far; revenue is totalPrice less this.
+  refundTotal: decimal("refund_total", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Orders placed while no shift is open join the next shift to open.
+  shiftId: varchar("shift_id").references(() => shifts.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("orders_restaurant_id_idx").on(table.restaurantId),
+  index("orders_shift_id_idx").on(table.shiftId),
+]);
+
+export const menuCategories = pgTable("menu_categories", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  restaurantId: varchar("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id),
+  name: text("name").notNull(),
+  position: integer("position").notNull().default(0),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("menu_categories_restaurant_id_idx").on(table.restaurantId),
+]);
+
+export const menuItems = pgTable("menu_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  restaurantId: varchar("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id),
+  categoryId: varchar("category_id")
+    .notNull()
+    .references(() => menuCategories.id),
+  name: text("name").notNull(),
+  description: text("description"),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull().default(DEFAULT_TAX_RATE),
+  isAvailable: boolean("is_available").notNull().default(true),
+  position: integer("position").notNull().default(0),
   createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("menu_items_restaurant_id_idx").on(table.restaurantId),
+]);
+
+// A choice offered on a menu item ("Size", "Extras"), with how many of its
+// options a line must pick.
+export const modifierGroups = pgTable("modifier_groups", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  menuItemId: varchar("menu_item_id")
+    .notNull()
+    .references(() => menuItems.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  minSelections: integer("min_selections").notNull().default(0),
+  maxSelections: integer("max_selections").notNull().default(1),
+  position: integer("position").notNull().default(0),
+}, (table) => [
+  index("modifier_groups_menu_item_id_idx").on(table.menuItemId),
+]);
+
+export const modifierOptions = pgTable("modifier_options", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  groupId: varchar("group_id")
+    .notNull()
+    .references(() => modifierGroups.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  priceDelta: decimal("price_delta", { precision: 10, scale: 2 }).notNull().default("0"),
+  position: integer("position").notNull().default(0),
 });
 
-export const insertOrderSchema = createInsertSchema(orders).omit({
+export const modifierGroupsRelations = relations(modifierGroups, ({ many }) => ({
+  options: many(modifierOptions),
+}));
+
+export const modifierOptionsRelations = relations(modifierOptions, ({ one }) => ({
+  group: one(modifierGroups, { fields: [modifierOptions.groupId], references: [modifierGroups.id] }),
+}));
+
+// The modifiers chosen for an order line, copied from the menu when the
+// order was placed.
+export const orderItemModifierSchema = z.object({
+  groupName: z.string(),
+  optionName: z.string(),
+  priceDelta: z.string().regex(signedMoneyString),
+});
+
+export type OrderItemModifier = z.infer<typeof orderItemModifierSchema>;
+
+// Line items snapshot the name and unit price at the time of ordering, so
+// later menu edits never change what an order was charged.
+export const orderItems = pgTable("order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  quantity: integer("quantity").notNull(),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull(),
+  discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull().default("0"),
+  modifiers: jsonb("modifiers").$type<OrderItemModifier[]>().notNull().default([]),
+  notes: text("notes"),
+}, (table) => [
+  index("order_items_order_id_idx").on(table.orderId),
+]);
+
+// One row per tender. Splitting a bill records several payments against the
+// same order.
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  method: text("method", { enum: PAYMENT_METHODS }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  // Card slip, UPI transaction id and the like.
+  reference: text("reference"),
+  receivedBy: text("received_by"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("payments_order_id_idx").on(table.orderId),
+]);
+
+// The audit trail of voids and refunds. Rows are only ever added.
+export const orderAdjustments = pgTable("order_adjustments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  kind: text("kind", { enum: ADJUSTMENT_KINDS }).notNull(),
+  reasonCode: text("reason_code").notNull(),
+  note: text("note"),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  // How a refund was paid back; voids move no money.
+  method: text("method", { enum: PAYMENT_METHODS }),
+  requestedBy: text("requested_by").notNull(),
+  approvedBy: text("approved_by"),
+  // The shift it is booked to: the one open when it was made, so a refund
+  // given the next day lands in that day's drawer, not the order's shift.
+  shiftId: varchar("shift_id").references(() => shifts.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("order_adjustments_order_id_idx").on(table.orderId),
+  index("order_adjustments_shift_id_idx").on(table.shiftId),
+]);
+
+export const ordersRelations = relations(orders, ({ many }) => ({
+  items: many(orderItems),
+  payments: many(payments),
+  adjustments: many(orderAdjustments),
+}));
+
+export const orderAdjustmentsRelations = relations(orderAdjustments, ({ one }) => ({
+  order: one(orders, { fields: [orderAdjustments.orderId], references: [orders.id] }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one }) => ({
+  order: one(orders, { fields: [payments.orderId], references: [orders.id] }),
+}));
+
+export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+  order: one(orders, { fields: [orderItems.orderId], references: [orders.id] }),
+}));
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  restaurantId: varchar("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  displayName: text("display_name").notNull(),
+  role: text("role", { enum: ROLES }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// One row per status change. The creation of an order is recorded with a
+// null fromStatus so the timeline starts at the moment the order came in.
+export const orderStatusEvents = pgTable("order_status_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id")
+    .notNull()
+    .references(() => orders.id, { onDelete: "cascade" }),
+  fromStatus: text("from_status", { enum: ORDER_STATUSES }),
+  toStatus: text("to_status", { enum: ORDER_STATUSES }).notNull(),
+  changedBy: text("changed_by"),
+  changedAt: timestamp("changed_at").notNull().defaultNow(),
+});
+
+// Automatic promotions (no code) apply to every order while live; coded ones
+// only when the order names their code.
+export const promotions = pgTable("promotions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  restaurantId: varchar("restaurant_id")
+    .notNull()
+    .references(() => restaurants.id),
+  name: text("name").notNull(),
+  code: text("code"),
+  kind: text("kind", { enum: PROMOTION_KINDS }).notNull(),
+  scope: text("scope", { enum: PROMOTION_SCOPES }).notNull(),
+  value: decimal("value", { precision: 10, scale: 2 }).notNull().default("0"),
+  menuItemId: varchar("menu_item_id").references(() => menuItems.id, { onDelete: "cascade" }),
+  buyQuantity: integer("buy_quantity"),
+  getQuantity: integer("get_quantity"),
+  startsAt: timestamp("starts_at"),
+  endsAt: timestamp("ends_at"),
+  dailyStartTime: text("daily_start_time"),
+  dailyEndTime: text("daily_end_time"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("promotions_restaurant_id_idx").on(table.restaurantId),
+  uniqueIndex("promotions_restaurant_code_idx").on(table.restaurantId, table.code),
+]);
+
+export const insertRestaurantSchema = createInsertSchema(restaurants, {
+  name: (schema) => schema.min(1, "Name is required"),
+  serviceChargeRate: z.string().regex(moneyString, "Must be a percentage like 10").optional(),
+  roundingIncrement: z.number().int().positive().optional(),
+  refundApprovalLimit: z.string().regex(moneyString, "Must be an amount like 500").nullish(),
+  timezone: z.string().refine(isValidTimeZone, "Unknown timezone").optional(),
+  dayCutover: z.string().regex(timeOfDay, "Must be a time like 06:00").optional(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+export const updateRestaurantSchema = insertRestaurantSchema.partial();
+
+// restaurantId is never taken from the request body; routes pass the tenant
+// resolved for the request to storage separately.
+export const insertOrderSchema = createInsertSchema(orders, {
+  appliedPromotions: z.array(appliedPromotionSchema).optional(),
+}).omit({
+  id: true,
+  restaurantId: true,
+  createdAt: true,
+});
+
+export const insertMenuCategorySchema = createInsertSchema(menuCategories, {
+  name: (schema) => schema.min(1, "Name is required"),
+}).omit({
+  id: true,
+  restaurantId: true,
+  createdAt: true,
+});
+
+export const updateMenuCategorySchema = insertMenuCategorySchema.partial();
+
+export const insertMenuItemSchema = createInsertSchema(menuItems, {
+  name: (schema) => schema.min(1, "Name is required"),
+  categoryId: (schema) => schema.min(1, "Pick a category"),
+  price: (schema) => schema.regex(moneyString, "Must be an amount like 12.50"),
+  taxRate: z.enum(TAX_SLABS).optional(),
+}).omit({
+  id: true,
+  restaurantId: true,
+  createdAt: true,
+});
+
+export const updateMenuItemSchema = insertMenuItemSchema.partial();
+
+export const menuItemAvailabilitySchema = z.object({ isAvailable: z.boolean() });
+
+export const modifierGroupInputSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    minSelections: z.number().int().min(0),
+    maxSelections: z.number().int().min(1),
+    options: z
+      .array(
+        z.object({
+          name: z.string().min(1, "Name is required"),
+          priceDelta: z.string().regex(signedMoneyString, "Must be an amount like 1.50 or -2.00"),
+        }),
+      )
+      .min(1, "A group needs at least one option"),
+  })
+  .refine((group) => group.minSelections <= group.maxSelections, {
+    message: "Minimum can't be more than maximum",
+    path: ["minSelections"],
+  })
+  .refine((group) => group.minSelections <= group.options.length, {
+    message: "Minimum can't be more than the number of options",
+    path: ["minSelections"],
+  });
+
+// PUT /api/menu/items/:id/modifiers replaces all of an item's groups at once.
+export const replaceModifierGroupsSchema = z.object({
+  groups: z.array(modifierGroupInputSchema),
+});
+
+export const insertOrderItemSchema = createInsertSchema(orderItems, {
+  name: (schema) => schema.min(1),
+  quantity: (schema) => schema.int().positive(),
+  unitPrice: (schema) => schema.regex(moneyString, "Must be an amount like 12.50"),
+  modifiers: z.array(orderItemModifierSchema),
+}).omit({
+  id: true,
+  orderId: true,
+  position: true,
+});
+
+// A line as a client submits it. Lines that reference a menu item take their
+// name, price and modifiers from the menu; free-form lines bring their own
+// name and price and can't carry modifiers.
+// Far beyond any real order; keeps the per-unit work on an order bounded.
+export const MAX_LINE_QUANTITY = 999;
+
+export const orderLineInputSchema = z
+  .object({
+    menuItemId: z.string().optional(),
+    name: z.string().min(1).optional(),
+    unitPrice: z.string().regex(moneyString, "Must be an amount like 12.50").optional(),
+    taxRate: z.enum(TAX_SLABS).optional(),
+    quantity: z.number().int().positive().max(MAX_LINE_QUANTITY, `At most ${MAX_LINE_QUANTITY} per line`),
+    modifierOptionIds: z.array(z.string()).optional(),
+    notes: z.string().optional(),
+  })
+  // Lines off the menu (open-price lines) need the orders:price permission.
+  .refine((line) => line.menuItemId || (line.name && line.unitPrice), {
+    message: "Items not on the menu need a name and unit price",
+  })
+  .refine((line) => line.menuItemId || !line.modifierOptionIds?.length, {
+    message: "Only menu items can have modifiers",
+    path: ["modifierOptionIds"],
+  });
+
+// What POST /api/orders accepts: the order header plus its lines. Every
+// amount is computed on the server; a client may send the total it showed
+// the customer, and the order is refused if the two disagree. New orders
+// always start as pending; the status only moves through the state machine.
+export const createOrderSchema = insertOrderSchema
+  .pick({ orderNumber: true, customerName: true })
+  .extend({
+    items: z.array(orderLineInputSchema).min(1, "An order needs at least one item"),
+    totalPrice: z.string().regex(moneyString, "Must be an amount like 12.50").optional(),
+    promoCode: z.string().trim().min(1).optional(),
+  });
+
+const promotionFieldsSchema = createInsertSchema(promotions, {
+  name: (schema) => schema.min(1, "Name is required"),
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .min(1)
+    .nullish()
+    .transform((code) => code || null),
+  value: (schema) => schema.regex(moneyString, "Must be an amount like 12.50"),
+  buyQuantity: z.number().int().positive().nullish(),
+  getQuantity: z.number().int().positive().nullish(),
+  startsAt: z.coerce.date().nullish(),
+  endsAt: z.coerce.date().nullish(),
+  dailyStartTime: z.string().regex(timeOfDay, "Must be a time like 17:30").nullish(),
+  dailyEndTime: z.string().regex(timeOfDay, "Must be a time like 19:00").nullish(),
+}).omit({
+  id: true,
+  restaurantId: true,
+  createdAt: true,
+});
+
+export const insertPromotionSchema = promotionFieldsSchema.superRefine((promotion, ctx) => {
+  if (promotion.scope === "item" && !promotion.menuItemId) {
+    ctx.addIssue({ code: "custom", message: "Pick the menu item it applies to", path: ["menuItemId"] });
+  }
+  if (promotion.kind === "buy_x_get_y") {
+    if (promotion.scope !== "item") {
+      ctx.addIssue({ code: "custom", message: "Buy X get Y applies to one item", path: ["scope"] });
+    }
+    if (!promotion.buyQuantity || !promotion.getQuantity) {
+      ctx.addIssue({ code: "custom", message: "Set how many to buy and how many are free", path: ["buyQuantity"] });
+    }
+  }
+  if (promotion.kind === "percentage" && Number(promotion.value) > 100) {
+    ctx.addIssue({ code: "custom", message: "Can't be more than 100%", path: ["value"] });
+  }
+  if (!promotion.dailyStartTime !== !promotion.dailyEndTime) {
+    ctx.addIssue({ code: "custom", message: "Set both ends of the daily window", path: ["dailyEndTime"] });
+  }
+  if (promotion.startsAt && promotion.endsAt && promotion.endsAt <= promotion.startsAt) {
+    ctx.addIssue({ code: "custom", message: "Must end after it starts", path: ["endsAt"] });
+  }
+});
+
+// Updates are merged onto the stored promotion and the result checked with
+// insertPromotionSchema, since the rules span several fields.
+export const updatePromotionSchema = promotionFieldsSchema.partial();
+
+export const insertPaymentSchema = createInsertSchema(payments, {
+  amount: (schema) =>
+    schema
+      .regex(moneyString, "Must be an amount like 12.50")
+      .refine((amount) => Number(amount) > 0, "Must be more than zero"),
+  reference: (schema) => schema.trim(),
+}).omit({
+  id: true,
+  orderId: true,
+  receivedBy: true,
+  createdAt: true,
+});
+
+// PATCH /api/orders/:id/status. Whether the move is allowed is checked
+// against the order's current status on the server.
+export const updateOrderStatusSchema = z.object({ status: z.enum(ORDER_STATUSES) });
+
+// POST /api/orders/:id/payments records one or more tenders at once.
+export const settleOrderSchema = z.object({
+  payments: z.array(insertPaymentSchema).min(1, "Add at least one payment"),
+});
+
+export const insertOrderAdjustmentSchema = createInsertSchema(orderAdjustments).omit({
+  id: true,
+  orderId: true,
+  shiftId: true,
+  createdAt: true,
+});
+
+// A manager's credentials, entered on the requesting device to sign off a
+// void or refund the requester can't approve alone.
+export const managerApprovalSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+const adjustmentRequestFields = {
+  note: z.string().trim().optional(),
+  approval: managerApprovalSchema.optional(),
+};
+
+const noteRequiredForOther = {
+  check: (request: { reasonCode: string; note?: string }) =>
+    request.reasonCode !== "other" || !!request.note,
+  message: { message: "Say what happened", path: ["note"] },
+};
+
+export const voidOrderSchema = z
+  .object({ reasonCode: z.enum(VOID_REASONS), ...adjustmentRequestFields })
+  .refine(noteRequiredForOther.check, noteRequiredForOther.message);
+
+export const refundOrderSchema = z
+  .object({
+    reasonCode: z.enum(REFUND_REASONS),
+    amount: z
+      .string()
+      .regex(moneyString, "Must be an amount like 12.50")
+      .refine((amount) => Number(amount) > 0, "Must be more than zero"),
+    method: z.enum(PAYMENT_METHODS),
+    ...adjustmentRequestFields,
+  })
+  .refine(noteRequiredForOther.check, noteRequiredForOther.message);
+
+export const openShiftSchema = z.object({
+  openingFloat: z.string().regex(moneyString, "Must be an amount like 500").default("0"),
+});
+
+export const closeShiftSchema = z.object({
+  closingCash: z.string().regex(moneyString, "Must be an amount like 500"),
+  notes: z.string().trim().optional(),
+});
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.min(3),
+  password: (schema) => schema.min(8),
+}).omit({
+  id: true,
+  restaurantId: true,
+  createdAt: true,
+});
+
+export const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const insertOrderStatusEventSchema = createInsertSchema(orderStatusEvents).omit({
+  id: true,
+  changedAt: true,
+});
+
+// Rows as the API sends them. JSON carries timestamps as ISO strings, so
+// these read them back into Dates.
+const jsonDate = z.coerce.date();
+
+export const selectRestaurantSchema = createSelectSchema(restaurants, { createdAt: jsonDate });
+
+export const publicUserSchema = createSelectSchema(users, { createdAt: jsonDate }).omit({
+  password: true,
+});
+
+export const selectBusinessDaySchema = createSelectSchema(businessDays, {
+  openedAt: jsonDate,
+  closedAt: jsonDate.nullable(),
+});
+
+export const selectShiftSchema = createSelectSchema(shifts, {
+  openedAt: jsonDate,
+  closedAt: jsonDate.nullable(),
+});
+
+export const currentShiftSchema = z
+  .object({ shift: selectShiftSchema, businessDay: selectBusinessDaySchema })
+  .nullable();
+
+export const selectMenuCategorySchema = createSelectSchema(menuCategories, { createdAt: jsonDate });
+export const selectMenuItemSchema = createSelectSchema(menuItems, { createdAt: jsonDate });
+
+export const modifierGroupWithOptionsSchema = createSelectSchema(modifierGroups).extend({
+  options: z.array(createSelectSchema(modifierOptions)),
+});
+
+export const menuSchema = z.object({
+  categories: z.array(selectMenuCategorySchema),
+  items: z.array(selectMenuItemSchema),
+  modifierGroups: z.array(modifierGroupWithOptionsSchema),
+});
+
+export const selectOrderItemSchema = createSelectSchema(orderItems, {
+  modifiers: z.array(orderItemModifierSchema),
+});
+export const selectPaymentSchema = createSelectSchema(payments, { createdAt: jsonDate });
+export const selectOrderAdjustmentSchema = createSelectSchema(orderAdjustments, {
+  createdAt: jsonDate,
+});
+
+export const orderWithItemsSchema = createSelectSchema(orders, {
+  appliedPromotions: z.array(appliedPromotionSchema),
+  createdAt: jsonDate,
+}).extend({
+  items: z.array(selectOrderItemSchema),
+  payments: z.array(selectPaymentSchema),
+  adjustments: z.array(selectOrderAdjustmentSchema),
+});
+
+export const selectOrderStatusEventSchema = createSelectSchema(orderStatusEvents, {
+  changedAt: jsonDate,
+});
+
+export const selectPromotionSchema = createSelectSchema(promotions, {
+  startsAt: jsonDate.nullable(),
+  endsAt: jsonDate.nullable(),
+  createdAt: jsonDate,
+});
+
+export type InsertRestaurant = z.infer<typeof insertRestaurantSchema>;
+export type UpdateRestaurant = z.infer<typeof updateRestaurantSchema>;
+export type Restaurant = typeof restaurants.$inferSelect;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+// What the API hands out for a user: never the password hash.
+export type PublicUser = Omit<User, "password">;
+export type LoginInput = z.infer<typeof loginSchema>;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type Order = typeof orders.$inferSelect;
+export type InsertMenuCategory = z.infer<typeof insertMenuCategorySchema>;
+export type UpdateMenuCategory = z.infer<typeof updateMenuCategorySchema>;
+export type MenuCategory = typeof menuCategories.$inferSelect;
+export type InsertMenuItem = z.infer<typeof insertMenuItemSchema>;
+export type UpdateMenuItem = z.infer<typeof updateMenuItemSchema>;
+export type MenuItem = typeof menuItems.$inferSelect;
+export type ModifierGroup = typeof modifierGroups.$inferSelect;
+export type ModifierOption = typeof modifierOptions.$inferSelect;
+export type ModifierGroupWithOptions = ModifierGroup & { options: ModifierOption[] };
+export type ModifierGroupInput = z.infer<typeof modifierGroupInputSchema>;
+export type Menu = {
+  categories: MenuCategory[];
+  items: MenuItem[];
+  modifierGroups: ModifierGroupWithOptions[];
+};
+export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+export type OrderItem = typeof orderItems.$inferSelect;
+export type OrderLineInput = z.infer<typeof orderLineInputSchema>;
+export type CreateOrder = z.infer<typeof createOrderSchema>;
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type UpdateOrderStatus = z.infer<typeof updateOrderStatusSchema>;
+export type SettleOrder = z.infer<typeof settleOrderSchema>;
+export type BusinessDay = typeof businessDays.$inferSelect;
+export type Shift = typeof shifts.$inferSelect;
+export type OpenShift = z.infer<typeof openShiftSchema>;
+export type CloseShift = z.infer<typeof closeShiftSchema>;
+// GET /api/shifts/current: the open shift and its business day, if any.
+export type CurrentShift = { shift: Shift; businessDay: BusinessDay } | null;
+export type OrderAdjustment = typeof orderAdjustments.$inferSelect;
+export type InsertOrderAdjustment = z.infer<typeof insertOrderAdjustmentSchema>;
+export type ManagerApproval = z.infer<typeof managerApprovalSchema>;
+export type VoidOrder = z.infer<typeof voidOrderSchema>;
+export type RefundOrder = z.infer<typeof refundOrderSchema>;
+export type OrderWithItems = Order & {
+  items: OrderItem[];
+  payments: Payment[];
+  adjustments: OrderAdjustment[];
+};
+export type Promotion = typeof promotions.$inferSelect;
+export type InsertPromotion = z.infer<typeof insertPromotionSchema>;
+export type UpdatePromotion = z.infer<typeof updatePromotionSchema>;
+export type InsertOrderStatusEvent = z.infer<typeof insertOrderStatusEventSchema>;
+export type OrderStatusEvent = typeof orderStatusEvents.$inferSelect;